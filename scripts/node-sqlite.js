@@ -0,0 +1,30 @@
+// postinstall rebuilds better-sqlite3 for Electron, which plain Node can't
+// load. The CLI and the fixture scan run under Node, so a Node build is kept
+// aside first, at native/node/better_sqlite3.node.
+const { execSync } = require("child_process");
+const { copyFileSync, mkdirSync } = require("fs");
+const { dirname, join } = require("path");
+
+const packageDir = dirname(require.resolve("better-sqlite3/package.json"));
+const target = join(__dirname, "..", "native", "node", "better_sqlite3.node");
+
+function loadsUnderNode() {
+  try {
+    const Database = require("better-sqlite3");
+    new Database(":memory:").close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Left over from an earlier install-app-deps; build it for Node again, then
+// hand the package back to Electron once the copy is taken
+const rebuilt = !loadsUnderNode();
+if (rebuilt) execSync("npm rebuild better-sqlite3", { stdio: "inherit" });
+
+mkdirSync(dirname(target), { recursive: true });
+copyFileSync(join(packageDir, "build", "Release", "better_sqlite3.node"), target);
+console.log(`Kept a Node build of better-sqlite3 at ${target}`);
+
+if (rebuilt) execSync("npx --no-install electron-builder install-app-deps", { stdio: "inherit" });
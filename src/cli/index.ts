@@ -0,0 +1,387 @@
+#!/usr/bin/env node
+import { copyFile, mkdir } from "fs/promises";
+import { existsSync } from "fs";
+import { homedir } from "os";
+import { basename, join, resolve } from "path";
+import { createInterface } from "readline/promises";
+import { configureCore } from "../core/environment";
+import { defineStore } from "../core/storage";
+import { DEFAULT_PROFILE_ID, setActiveProfile, type Profile } from "../core/utils";
+import {
+  getReviewDecisions,
+  migrateLibrary,
+  listApprovedEvents,
+  listEvents,
+  recordScanNewEvents,
+  setReviewDecision,
+} from "../core/library";
+import { groupDuplicates } from "../core/dedupe";
+import type { ScanBudget } from "../core/budget";
+import type { RetentionPolicy } from "../core/retention";
+
+// Headless counterpart to the tray app. It reads and writes the same data
+// directory and settings, so a server can scan overnight and the desktop app
+// reviews what it found:
+//   scene-scout scan --watchlist
+//   scene-scout review
+
+const USAGE = `Usage: scene-scout <command> [options]
+
+Commands:
+  scan              Scan the story feed for events
+    --watchlist       Only scan the accounts on the watchlist
+    --highlights      With --watchlist, also walk their highlights
+    --debug           Keep a trace and screenshots if the scan fails
+    --concurrency N   Stories with the model at once
+    --max-stories N   Stop after N stories (overrides the app's per-scan limit)
+    --max-minutes N   Stop after N minutes
+    --max-spend N     Stop at an estimated N dollars of model calls
+  list              List events in the library, duplicates grouped
+  review            Approve or reject unreviewed events one by one
+  export <dir>      Copy approved events into a folder
+  login             Open a browser to log into Instagram
+
+Options:
+  --data-dir <dir>  Data directory (default: the desktop app's, or $SCENE_SCOUT_DATA_DIR)
+  --profile <id>    Profile to use (default: the app's active profile)
+  -h, --help        Show this help`;
+
+// The settings keys the CLI shares with the desktop app (see main/store.ts)
+interface ConfigSchema {
+  openrouterApiKey: string;
+  visionProvider: string;
+  classifyConcurrency: number;
+  scanBudget: ScanBudget;
+  retention: RetentionPolicy;
+  hiddenAccounts: string[];
+  profiles: Profile[];
+  activeProfile: string;
+  watchlist: string[];
+  watchlistHighlights: boolean;
+  debugMode: boolean;
+}
+
+interface CliArgs {
+  command: string | undefined;
+  positional: string[];
+  flags: Record<string, string | true>;
+}
+
+const VALUE_FLAGS = new Set(["data-dir", "profile", "concurrency", "max-stories", "max-minutes", "max-spend"]);
+
+function parseArgs(argv: string[]): CliArgs {
+  const positional: string[] = [];
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "-h") {
+      flags.help = true;
+    } else if (arg.startsWith("--")) {
+      const [name, inline] = arg.slice(2).split("=", 2) as [string, string | undefined];
+      if (inline !== undefined) flags[name] = inline;
+      else if (VALUE_FLAGS.has(name) && argv[i + 1] !== undefined) flags[name] = argv[++i]!;
+      else flags[name] = true;
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { command: positional.shift(), positional, flags };
+}
+
+// Where Electron keeps userData for the desktop app
+function defaultDataDir(): string {
+  const home = homedir();
+  const base =
+    process.platform === "darwin"
+      ? join(home, "Library", "Application Support")
+      : process.platform === "win32"
+        ? process.env.APPDATA || join(home, "AppData", "Roaming")
+        : process.env.XDG_CONFIG_HOME || join(home, ".config");
+  return join(base, "Scene Scout");
+}
+
+async function ask(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return (await rl.question(question)).trim().toLowerCase();
+  } finally {
+    rl.close();
+  }
+}
+
+const config = defineStore<ConfigSchema>("config");
+
+function selectProfile(requested: string | undefined): Profile {
+  const stored = config().get("profiles") ?? [];
+  // Before the app's first run with profiles, there is only the default one
+  const profiles: Profile[] =
+    stored.length > 0
+      ? stored
+      : [{ id: DEFAULT_PROFILE_ID, name: "Default", hiddenAccounts: config().get("hiddenAccounts") ?? [], sessionProblem: "" }];
+
+  const id = requested ?? config().get("activeProfile") ?? DEFAULT_PROFILE_ID;
+  const profile = profiles.find((p) => p.id === id) ?? (requested ? undefined : profiles[0]);
+  if (!profile) {
+    throw new Error(`No profile "${requested}". Profiles: ${profiles.map((p) => p.id).join(", ")}`);
+  }
+  setActiveProfile(profile.id);
+  return profile;
+}
+
+function updateProfile(id: string, changes: Partial<Omit<Profile, "id">>): void {
+  const profiles = config().get("profiles") ?? [];
+  if (profiles.length === 0) {
+    if (changes.hiddenAccounts) config().set("hiddenAccounts", changes.hiddenAccounts);
+    return;
+  }
+  config().set(
+    "profiles",
+    profiles.map((p) => (p.id === id ? { ...p, ...changes } : p))
+  );
+}
+
+async function scanCommand(profile: Profile, flags: CliArgs["flags"]): Promise<number> {
+  const { runScraper } = await import("../core/scraper");
+  const { formatProgressEvent } = await import("../core/progress");
+  const { isSessionProblem } = await import("../core/session");
+  const { formatBudgetLimit } = await import("../core/budget");
+  const { applyRetention } = await import("../core/retention");
+
+  if ((config().get("visionProvider") ?? "openrouter") === "openrouter") {
+    const apiKey = process.env.OPENROUTER_API_KEY || config().get("openrouterApiKey");
+    if (!apiKey) {
+      console.error("No OpenRouter API key: set one in the app's Settings or in OPENROUTER_API_KEY.");
+      return 1;
+    }
+    process.env.OPENROUTER_API_KEY = apiKey;
+  }
+
+  const watchlist = config().get("watchlist") ?? [];
+  if (flags.watchlist && watchlist.length === 0) {
+    console.error("The watchlist is empty: add accounts in the app's Settings.");
+    return 1;
+  }
+
+  const concurrency = typeof flags.concurrency === "string" ? Number(flags.concurrency) : config().get("classifyConcurrency");
+
+  const budget = config().get("scanBudget") ?? {};
+  const perScan = { ...budget.perScan };
+  for (const [flag, cap] of [
+    ["max-stories", "maxStories"],
+    ["max-minutes", "maxMinutes"],
+    ["max-spend", "maxSpend"],
+  ] as const) {
+    if (typeof flags[flag] !== "string") continue;
+    const value = Number(flags[flag]);
+    if (!Number.isFinite(value) || value < 0) {
+      console.error(`--${flag} needs a number.`);
+      return 1;
+    }
+    perScan[cap] = value;
+  }
+
+  // Ctrl-C stops after the current story, like the tray's Stop Scan
+  const abort = new AbortController();
+  process.once("SIGINT", () => {
+    console.log("Stopping after the current story...");
+    abort.abort();
+  });
+
+  const knownKeysBefore = new Set(listEvents().map((e) => e.key));
+  const result = await runScraper(
+    (event) => console.log(formatProgressEvent(event)),
+    profile.hiddenAccounts,
+    {
+      signal: abort.signal,
+      concurrency: Number.isFinite(concurrency) && concurrency! > 0 ? concurrency : undefined,
+      accounts: flags.watchlist ? watchlist : undefined,
+      highlights: Boolean(flags.highlights) || config().get("watchlistHighlights"),
+      debug: Boolean(flags.debug) || config().get("debugMode"),
+      budget: { ...budget, perScan },
+    }
+  );
+
+  if (result.diagnosticReport) console.log(`Selector report: ${result.diagnosticReport}`);
+  if (result.failureDir) console.log(`Failure capture: ${result.failureDir}`);
+
+  // Same count the app keeps in the scan history: groups with no copy seen before
+  if (result.scanId !== undefined) {
+    const newEvents = groupDuplicates(listEvents()).filter((g) =>
+      [g.canonical, ...g.duplicates].every((m) => !knownKeysBefore.has(m.key))
+    );
+    recordScanNewEvents(result.scanId, newEvents.length);
+  }
+
+  if (isSessionProblem(result.errorCode)) {
+    // Same flag the app sets, so it asks for a fresh login too
+    updateProfile(profile.id, { sessionProblem: result.errorCode });
+  }
+
+  // The app's cleanup rules run after every scan, from either side
+  const retention = await applyRetention(config().get("retention") ?? {});
+  if (retention.items.length > 0) {
+    console.log(`Cleanup removed ${retention.items.length} event${retention.items.length !== 1 ? "s" : ""} from the library.`);
+  }
+
+  if (result.error) {
+    console.error(`Scan failed: ${result.error}`);
+    return 1;
+  }
+
+  if (result.limitReached) console.log(`Stopped at the ${formatBudgetLimit(result.limitReached)}.`);
+  console.log(
+    `${result.stopped ? "Stopped" : "Done"}: ${result.storyCount} stories, ${result.eventCount} events, ` +
+      `${result.cacheHits} cached, ${result.alreadySeen} seen before.`
+  );
+  return 0;
+}
+
+async function listCommand(profile: Profile): Promise<number> {
+  const decisions = getReviewDecisions();
+
+  const groups = groupDuplicates(listEvents()).sort(
+    (a, b) =>
+      Date.parse(b.canonical.capturedAt) - Date.parse(a.canonical.capturedAt) ||
+      b.canonical.key.localeCompare(a.canonical.key)
+  );
+  for (const group of groups) {
+    const { canonical } = group;
+    const members = [canonical, ...group.duplicates];
+    const status = members.some((m) => decisions.get(m.key) === "approved")
+      ? "approved"
+      : members.some((m) => decisions.get(m.key) === "rejected")
+        ? "rejected"
+        : members.some((m) => decisions.has(m.key))
+          ? "duplicate"
+          : "new";
+    const hidden = profile.hiddenAccounts.includes(canonical.username) ? " (hidden)" : "";
+    const title = canonical.details?.title || "(untitled)";
+    const when = canonical.details?.startDate ? ` on ${canonical.details.startDate}` : "";
+    const copies = group.duplicates.length > 0 ? `, ${group.duplicates.length} more from ${group.accounts.join(", ")}` : "";
+    console.log(`${canonical.key}  [${status}]${hidden}  ${title}${when}  @${canonical.username}${copies}`);
+  }
+  console.log(`${groups.length} event${groups.length !== 1 ? "s" : ""}.`);
+  return 0;
+}
+
+async function reviewCommand(profile: Profile): Promise<number> {
+  const decisions = getReviewDecisions();
+
+  const events = listEvents().filter((e) => !profile.hiddenAccounts.includes(e.username));
+  const pending = groupDuplicates(events)
+    .filter((g) => [g.canonical, ...g.duplicates].every((m) => !decisions.has(m.key)))
+    .sort(
+      (a, b) =>
+        Date.parse(b.canonical.capturedAt) - Date.parse(a.canonical.capturedAt) ||
+        b.canonical.key.localeCompare(a.canonical.key)
+    );
+
+  if (pending.length === 0) {
+    console.log("Nothing to review.");
+    return 0;
+  }
+
+  for (const [i, group] of pending.entries()) {
+    const { canonical } = group;
+    const details = canonical.details;
+    console.log(`\n[${i + 1}/${pending.length}] @${canonical.username}  ${canonical.path}`);
+    if (details) {
+      for (const [label, value] of [
+        ["Title", details.title],
+        ["Date", [details.startDate, details.startTime].filter(Boolean).join(" ")],
+        ["Venue", details.venueName],
+        ["Tickets", details.ticketUrl],
+      ] as const) {
+        if (value) console.log(`  ${label}: ${value}`);
+      }
+    }
+    if (group.duplicates.length > 0) console.log(`  Also posted by: ${group.accounts.join(", ")}`);
+
+    const answer = await ask("Approve? [y]es / [n]o / [s]kip / [q]uit: ");
+    if (answer === "q") break;
+    if (answer !== "y" && answer !== "n") continue;
+
+    // As in the review window: copies share a rejection, but not an approval
+    const approved = answer === "y";
+    const duplicateKeys = group.duplicates.map((d) => d.key);
+    setReviewDecision([canonical.key], approved ? "approved" : "rejected");
+    setReviewDecision(duplicateKeys, approved ? "duplicate" : "rejected");
+  }
+  return 0;
+}
+
+async function exportCommand(dest: string | undefined): Promise<number> {
+  if (!dest) {
+    console.error("Usage: scene-scout export <dir>");
+    return 1;
+  }
+  const destDir = resolve(dest);
+  await mkdir(destDir, { recursive: true });
+
+  let copied = 0;
+  for (const event of listApprovedEvents()) {
+    if (!existsSync(event.path)) continue;
+    await copyFile(event.path, join(destDir, basename(event.key)));
+    copied++;
+  }
+  console.log(`Exported ${copied} event${copied !== 1 ? "s" : ""} to ${destDir}.`);
+  return 0;
+}
+
+async function loginCommand(profile: Profile): Promise<number> {
+  const { runSetup } = await import("../core/setup");
+  const username = await runSetup();
+  updateProfile(profile.id, { sessionProblem: "" });
+  console.log(username ? `Session saved for @${username}.` : "Session saved.");
+  return 0;
+}
+
+async function main(): Promise<number> {
+  const { command, positional, flags } = parseArgs(process.argv.slice(2));
+  if (!command || flags.help) {
+    console.log(USAGE);
+    return command || flags.help ? 0 : 1;
+  }
+
+  const dataDir =
+    typeof flags["data-dir"] === "string" ? resolve(flags["data-dir"]) : process.env.SCENE_SCOUT_DATA_DIR || defaultDataDir();
+  configureCore({
+    dataDir,
+    prompt: async ({ title, message, detail }) => {
+      console.log(`\n${title}: ${message}`);
+      if (detail) console.log(detail);
+      await ask("Press Enter to continue...");
+    },
+  });
+
+  const profile = selectProfile(typeof flags.profile === "string" ? flags.profile : undefined);
+  const renamed = await migrateLibrary([...profile.hiddenAccounts, ...(config().get("watchlist") ?? [])]);
+  if (renamed.size > 0) {
+    profile.hiddenAccounts = Array.from(new Set(profile.hiddenAccounts.map((a) => renamed.get(a) ?? a)));
+    updateProfile(profile.id, { hiddenAccounts: profile.hiddenAccounts });
+  }
+
+  switch (command) {
+    case "scan":
+      return scanCommand(profile, flags);
+    case "list":
+      return listCommand(profile);
+    case "review":
+      return reviewCommand(profile);
+    case "export":
+      return exportCommand(positional[0]);
+    case "login":
+      return loginCommand(profile);
+    default:
+      console.error(`Unknown command "${command}".\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+);
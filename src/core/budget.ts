@@ -0,0 +1,164 @@
+import { defineStore } from "./storage";
+import { getDateString } from "./utils";
+
+// Roughly what one story costs on the default OpenRouter model
+export const DEFAULT_COST_PER_MODEL_CALL = 0.0005;
+
+// Only today's usage is ever checked; a few days are kept for reference
+const USAGE_DAYS_KEPT = 7;
+
+/** Caps for one scope. Zero or missing means no limit. */
+export interface BudgetCaps {
+  maxStories?: number;
+  maxMinutes?: number;
+  /** Estimated model spend in US dollars. */
+  maxSpend?: number;
+}
+
+export interface ScanBudget {
+  perScan?: BudgetCaps;
+  perDay?: BudgetCaps;
+  /** Estimated price of one model call, for the spend caps. */
+  costPerModelCall?: number;
+}
+
+export type BudgetLimitKind = "stories" | "duration" | "spend";
+
+export interface BudgetLimit {
+  scope: "scan" | "day";
+  kind: BudgetLimitKind;
+  /** The cap that was reached, in stories, minutes or dollars. */
+  cap: number;
+}
+
+export interface BudgetUsage {
+  stories: number;
+  durationMs: number;
+  modelCalls: number;
+  spend: number;
+}
+
+interface UsageSchema {
+  days: Record<string, BudgetUsage>;
+}
+
+const store = defineStore<UsageSchema>("scan-usage", { days: {} });
+
+const EMPTY_USAGE: BudgetUsage = { stories: 0, durationMs: 0, modelCalls: 0, spend: 0 };
+
+export function getDailyUsage(date: string = getDateString()): BudgetUsage {
+  return { ...EMPTY_USAGE, ...store().get("days")[date] };
+}
+
+function addDailyUsage(delta: Partial<BudgetUsage>): void {
+  const today = getDateString();
+  const usage = getDailyUsage(today);
+  const days = Object.fromEntries(
+    Object.entries(store().get("days"))
+      .sort(([a], [b]) => b.localeCompare(a))
+      .slice(0, USAGE_DAYS_KEPT - 1)
+  );
+  days[today] = {
+    stories: usage.stories + (delta.stories ?? 0),
+    durationMs: usage.durationMs + (delta.durationMs ?? 0),
+    modelCalls: usage.modelCalls + (delta.modelCalls ?? 0),
+    spend: usage.spend + (delta.spend ?? 0),
+  };
+  store().set("days", days);
+}
+
+function exceededCap(caps: BudgetCaps | undefined, usage: BudgetUsage, scope: BudgetLimit["scope"]): BudgetLimit | null {
+  if (!caps) return null;
+  if (caps.maxStories && usage.stories >= caps.maxStories) {
+    return { scope, kind: "stories", cap: caps.maxStories };
+  }
+  if (caps.maxMinutes && usage.durationMs >= caps.maxMinutes * 60_000) {
+    return { scope, kind: "duration", cap: caps.maxMinutes };
+  }
+  if (caps.maxSpend && usage.spend >= caps.maxSpend) {
+    return { scope, kind: "spend", cap: caps.maxSpend };
+  }
+  return null;
+}
+
+export interface BudgetTracker {
+  countStory(): void;
+  countModelCall(): void;
+  /** The first cap this scan or today has reached, or null to carry on. */
+  check(): BudgetLimit | null;
+  /** This scan's usage so far. */
+  usage(): BudgetUsage;
+  /** Time between pause and resume doesn't count towards the duration caps. */
+  pause(): void;
+  resume(): void;
+}
+
+/**
+ * Tracks a scan against its budget. Usage is added to the day's total as it
+ * happens, so a scan that crashes still counts against the daily caps.
+ */
+export function createBudgetTracker(budget: ScanBudget = {}): BudgetTracker {
+  const costPerCall = budget.costPerModelCall ?? DEFAULT_COST_PER_MODEL_CALL;
+  const startedAt = Date.now();
+  let recordedUntil = startedAt;
+  let pausedAt: number | null = null;
+  let pausedMs = 0;
+  const scan: BudgetUsage = { ...EMPTY_USAGE };
+
+  // While paused the clock stands still at the moment of pausing
+  const record = (delta: Partial<BudgetUsage>) => {
+    const now = pausedAt ?? Date.now();
+    const elapsed = now - recordedUntil;
+    recordedUntil = now;
+    scan.durationMs = now - startedAt - pausedMs;
+    addDailyUsage({ ...delta, durationMs: elapsed });
+  };
+
+  return {
+    countStory() {
+      scan.stories++;
+      record({ stories: 1 });
+    },
+
+    countModelCall() {
+      scan.modelCalls++;
+      scan.spend += costPerCall;
+      record({ modelCalls: 1, spend: costPerCall });
+    },
+
+    check() {
+      record({});
+      return exceededCap(budget.perScan, scan, "scan") ?? exceededCap(budget.perDay, getDailyUsage(), "day");
+    },
+
+    usage() {
+      return { ...scan };
+    },
+
+    pause() {
+      if (pausedAt !== null) return;
+      record({});
+      pausedAt = Date.now();
+    },
+
+    resume() {
+      if (pausedAt === null) return;
+      const now = Date.now();
+      pausedMs += now - pausedAt;
+      recordedUntil = now;
+      pausedAt = null;
+    },
+  };
+}
+
+export function formatBudgetLimit(limit: BudgetLimit): string {
+  const scope = limit.scope === "scan" ? "per-scan" : "daily";
+  switch (limit.kind) {
+    case "stories":
+      return `${scope} limit of ${limit.cap} stories`;
+    case "duration":
+      return `${scope} limit of ${limit.cap} minutes`;
+    case "spend":
+      return `${scope} spend limit of $${limit.cap}`;
+  }
+}
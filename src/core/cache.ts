@@ -0,0 +1,43 @@
+import { defineStore } from "./storage";
+import { hammingDistance } from "./imagehash";
+import type { StoryExtraction } from "./vision";
+
+// Frames within this many of a cached hash's 256 bits reuse its result.
+// Distinct flyers in the fixture are 36 or more apart.
+export const MATCH_THRESHOLD = 16;
+// Stories expire after 24 hours; keep a margin for reposts and slow re-scans
+const ENTRY_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface CacheEntry {
+  hash: string;
+  extraction: StoryExtraction;
+  cachedAt: number;
+}
+
+interface CacheSchema {
+  entries: CacheEntry[];
+}
+
+const store = defineStore<CacheSchema>("classification-cache", { entries: [] });
+
+export function findCachedExtraction(hash: string): StoryExtraction | null {
+  const cutoff = Date.now() - ENTRY_TTL_MS;
+  let best: CacheEntry | null = null;
+  let bestDistance = MATCH_THRESHOLD + 1;
+  for (const entry of store().get("entries")) {
+    if (entry.cachedAt < cutoff) continue;
+    const distance = hammingDistance(hash, entry.hash);
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+  return best ? best.extraction : null;
+}
+
+export function cacheExtraction(hash: string, extraction: StoryExtraction): void {
+  const cutoff = Date.now() - ENTRY_TTL_MS;
+  const entries = store().get("entries").filter((e) => e.cachedAt >= cutoff && e.hash !== hash);
+  entries.push({ hash, extraction, cachedAt: Date.now() });
+  store().set("entries", entries);
+}
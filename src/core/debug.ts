@@ -0,0 +1,92 @@
+import type { BrowserContext, Page } from "playwright";
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import { getFailuresDir } from "./utils";
+
+const SCREENSHOT_LIMIT = 10;
+const CONSOLE_LIMIT = 1000;
+
+export type FailureReason = "error" | "stuck" | "no-stories";
+
+export interface FailureRecorder {
+  /** Adds the current view to the rolling set of recent screenshots. */
+  snapshot(): Promise<void>;
+  /**
+   * Writes the trace, recent screenshots, page HTML and console log to a
+   * timestamped folder and returns its path. Must run before the browser closes.
+   */
+  save(reason: FailureReason, details: Record<string, unknown>): Promise<string>;
+  /** Stops tracing and keeps nothing, for scans that went fine. */
+  discard(): Promise<void>;
+}
+
+/**
+ * Debug-mode capture for a scan. Tracing and console logging start straight
+ * away, so everything leading up to a failure is in the saved folder.
+ */
+export async function createFailureRecorder(page: Page, context: BrowserContext): Promise<FailureRecorder> {
+  const screenshots: { at: string; image: Buffer }[] = [];
+  const consoleLines: string[] = [];
+
+  const log = (line: string) => {
+    consoleLines.push(`[${new Date().toISOString()}] ${line}`);
+    if (consoleLines.length > CONSOLE_LIMIT) consoleLines.shift();
+  };
+  page.on("console", (msg) => log(`${msg.type()}: ${msg.text()}`));
+  page.on("pageerror", (err) => log(`pageerror: ${err.message}`));
+  page.on("framenavigated", (frame) => {
+    if (frame === page.mainFrame()) log(`navigated: ${frame.url()}`);
+  });
+
+  let tracing = await context.tracing
+    .start({ screenshots: true, snapshots: true })
+    .then(() => true)
+    .catch((err) => {
+      console.error("Could not start tracing:", err);
+      return false;
+    });
+
+  const snapshot = async () => {
+    const image = await page.screenshot({ type: "jpeg", quality: 60 }).catch(() => null);
+    if (!image) return;
+    screenshots.push({ at: new Date().toISOString(), image });
+    if (screenshots.length > SCREENSHOT_LIMIT) screenshots.shift();
+  };
+
+  return {
+    snapshot,
+
+    async save(reason, details) {
+      const dir = join(getFailuresDir(), `${new Date().toISOString().replace(/[:.]/g, "-")}-${reason}`);
+      await mkdir(join(dir, "screenshots"), { recursive: true });
+
+      if (tracing) {
+        tracing = false;
+        await context.tracing.stop({ path: join(dir, "trace.zip") }).catch((err) => log(`trace not saved: ${err}`));
+      }
+
+      // The view at the moment of failure, after the rolling ones
+      await snapshot();
+      await Promise.all(
+        screenshots.map(({ at, image }, i) =>
+          writeFile(join(dir, "screenshots", `${String(i + 1).padStart(2, "0")}_${at.replace(/[:.]/g, "-")}.jpg`), image)
+        )
+      );
+
+      const html = await page.content().catch((err) => `<!-- page content unavailable: ${err} -->`);
+      await writeFile(join(dir, "page.html"), html);
+      await writeFile(join(dir, "console.log"), consoleLines.join("\n"));
+      await writeFile(
+        join(dir, "failure.json"),
+        JSON.stringify({ reason, url: page.url(), savedAt: new Date().toISOString(), ...details }, null, 2)
+      );
+      return dir;
+    },
+
+    async discard() {
+      if (!tracing) return;
+      tracing = false;
+      await context.tracing.stop().catch(() => {});
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import { hammingDistance } from "./imagehash";
+import type { LibraryEvent } from "./library";
+
+// Out of 256 bits. Looser than the classification cache, since reposts are
+// re-rendered rather than re-captured, so the text has to agree as well.
+const IMAGE_MATCH_THRESHOLD = 24;
+// Without text to compare, only near-identical images count
+const IMAGE_ONLY_MATCH_THRESHOLD = 12;
+const TEXT_MATCH_THRESHOLD = 0.7;
+const MIN_TEXT_TOKENS = 5;
+
+export interface EventGroup {
+  canonical: LibraryEvent;
+  duplicates: LibraryEvent[];
+  accounts: string[];
+}
+
+// Capture times carry their offset, so parsing them orders captures across timezones
+function captureOrder(event: LibraryEvent): number {
+  return Date.parse(event.capturedAt) || 0;
+}
+
+function tokenize(text: string): Set<string> {
+  const tokens = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((t) => t.length >= 2);
+  return new Set(tokens);
+}
+
+function textSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size < MIN_TEXT_TOKENS || b.size < MIN_TEXT_TOKENS) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function sameTitleAndDate(a: LibraryEvent, b: LibraryEvent): boolean {
+  const da = a.details;
+  const db = b.details;
+  return (
+    !!da?.title &&
+    !!db?.title &&
+    !!da.startDate &&
+    da.startDate === db.startDate &&
+    da.title.trim().toLowerCase() === db.title.trim().toLowerCase()
+  );
+}
+
+// Copies are set aside without review, so both the image and the text have
+// to say so; either alone has grouped unrelated flyers
+function isDuplicate(a: LibraryEvent, b: LibraryEvent, aTokens: Set<string>, bTokens: Set<string>): boolean {
+  if (!a.imageHash || !b.imageHash) return false;
+  const distance = hammingDistance(a.imageHash, b.imageHash);
+  if (distance > IMAGE_MATCH_THRESHOLD) return false;
+
+  if (sameTitleAndDate(a, b) || textSimilarity(aTokens, bTokens) >= TEXT_MATCH_THRESHOLD) return true;
+  const comparable = aTokens.size >= MIN_TEXT_TOKENS && bTokens.size >= MIN_TEXT_TOKENS;
+  return !comparable && distance <= IMAGE_ONLY_MATCH_THRESHOLD;
+}
+
+// The last grouping, reused while the events going in are unchanged, since
+// every review window load asks again
+let lastGrouping: { signature: string; groups: EventGroup[] } | null = null;
+
+/**
+ * Clusters copies of the same flyer, whether re-captured by a later scan or
+ * posted by several accounts. The earliest capture becomes the canonical event.
+ */
+export function groupDuplicates(events: LibraryEvent[]): EventGroup[] {
+  const signature = events.map((e) => `${e.key} ${e.imageHash}`).join("\n");
+  if (lastGrouping?.signature !== signature) {
+    lastGrouping = { signature, groups: computeGroups(events) };
+  }
+  // Callers sort the list they get back
+  return [...lastGrouping.groups];
+}
+
+function computeGroups(events: LibraryEvent[]): EventGroup[] {
+  const sorted = [...events].sort((a, b) => captureOrder(a) - captureOrder(b));
+  const tokens = sorted.map((e) => tokenize(e.details?.rawText ?? ""));
+
+  // Union-find over pairwise matches so A~B and B~C land in one group
+  const parent = sorted.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!;
+      i = parent[i]!;
+    }
+    return i;
+  };
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      if (find(i) === find(j)) continue;
+      if (isDuplicate(sorted[i]!, sorted[j]!, tokens[i]!, tokens[j]!)) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const byRoot = new Map<number, LibraryEvent[]>();
+  sorted.forEach((event, i) => {
+    const root = find(i);
+    const members = byRoot.get(root) ?? [];
+    members.push(event);
+    byRoot.set(root, members);
+  });
+
+  return Array.from(byRoot.values()).map((members) => {
+    const [canonical, ...duplicates] = members;
+    return {
+      canonical: canonical!,
+      duplicates,
+      accounts: Array.from(new Set(members.map((m) => m.username))),
+    };
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * What the core needs from whatever hosts it. The desktop app passes its
+ * userData folder and native dialogs; the CLI passes a directory and terminal
+ * prompts. Nothing in src/core imports electron.
+ */
+export interface CoreEnvironment {
+  /** Where the library, sessions and caches live. */
+  dataDir: string;
+  /** Chromium to launch; leave unset to use Playwright's own download. */
+  browserPath?: string;
+  /** Shows a message and resolves once the user has acted on it. */
+  prompt(options: { title: string; message: string; detail?: string }): Promise<void>;
+}
+
+let environment: CoreEnvironment | null = null;
+
+export function configureCore(env: CoreEnvironment): void {
+  environment = env;
+}
+
+export function getEnvironment(): CoreEnvironment {
+  if (!environment) {
+    throw new Error("Core not configured: call configureCore() first.");
+  }
+  return environment;
+}
@@ -0,0 +1,35 @@
+import { defineStore } from "./storage";
+import { getProfileDir } from "./utils";
+
+// Highlights stay up for months and rarely change, so unlike the
+// classification cache, processed frames are remembered indefinitely
+
+export interface ProcessedFrame {
+  account: string;
+  highlightId: string;
+  processedAt: number;
+}
+
+interface HighlightSchema {
+  frames: Record<string, ProcessedFrame>;
+}
+
+// Per profile, so a frame one profile processed still reaches another's library
+const processedFrames = defineStore<HighlightSchema>("highlight-frames", { frames: {} });
+const store = () => processedFrames(getProfileDir());
+
+export function isFrameProcessed(frameId: string): boolean {
+  return frameId in store().get("frames");
+}
+
+export function markFrameProcessed(frameId: string, account: string, highlightId: string): void {
+  store().set("frames", {
+    ...store().get("frames"),
+    [frameId]: { account, highlightId, processedAt: Date.now() },
+  });
+}
+
+export function getHighlightId(url: string): string | null {
+  const match = url.match(/\/stories\/highlights\/(\d+)/);
+  return match ? match[1]! : null;
+}
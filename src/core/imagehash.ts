@@ -0,0 +1,68 @@
+import sharp from "sharp";
+
+const SAMPLE_SIZE = 64;
+const HASH_SIZE = 16;
+
+// Cosine terms of the DCT, shared by the row and column passes
+const COSINES = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Array.from({ length: SAMPLE_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * SAMPLE_SIZE)))
+);
+
+/**
+ * Perceptual hash (pHash): shrink to 64x64 greyscale, take the 16x16 lowest
+ * frequencies of its DCT and record whether each is above their median. A
+ * flyer's layout and text move these, so different flyers on the same flat
+ * background land far apart, while re-encoded or resized copies of one frame
+ * stay within a few bits. 256 bits, as 64 hex characters.
+ */
+export async function computeImageHash(image: string | Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .greyscale()
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  // Separable 2D DCT: each row first, then each column of the result
+  const rows: number[][] = [];
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    rows.push(
+      COSINES.map((cos) => {
+        let sum = 0;
+        for (let x = 0; x < SAMPLE_SIZE; x++) sum += pixels[y * SAMPLE_SIZE + x]! * cos[x]!;
+        return sum;
+      })
+    );
+  }
+  const coefficients: number[] = [];
+  for (let u = 0; u < HASH_SIZE; u++) {
+    for (let v = 0; v < HASH_SIZE; v++) {
+      let sum = 0;
+      for (let y = 0; y < SAMPLE_SIZE; y++) sum += rows[y]![v]! * COSINES[u]![y]!;
+      coefficients.push(sum);
+    }
+  }
+
+  // The first coefficient is overall brightness; it would skew the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)]!;
+
+  let hex = "";
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) nibble = (nibble << 1) | (coefficients[i + bit]! > median ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/** Bits that differ between two hashes. Hashes of different sizes never match. */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let count = 0;
+  for (let i = 0; i < a.length; i++) {
+    count += NIBBLE_BITS[parseInt(a[i]!, 16) ^ parseInt(b[i]!, 16)]!;
+  }
+  return count;
+}
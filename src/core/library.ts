@@ -0,0 +1,675 @@
+import Database from "better-sqlite3";
+import { existsSync, mkdirSync } from "fs";
+import { mkdir, rename, rmdir, writeFile } from "fs/promises";
+import { join, relative, sep } from "path";
+import { computeImageHash } from "./imagehash";
+import { defineStore } from "./storage";
+import {
+  accountFileName,
+  getDateString,
+  getEventsDir,
+  getProfileDir,
+  getSidecarPath,
+  getTimeString,
+  readEventSidecar,
+  scanAccountImages,
+  toZonedISOString,
+  type EventSidecar,
+} from "./utils";
+import type { ExtractedEvent } from "./vision";
+
+export interface LibraryEvent {
+  key: string; // e.g. "2026-02-08/user_14-30-00.png"
+  path: string;
+  /** The Instagram handle as shown on the story, never a filename-safe copy. */
+  username: string;
+  userId: string | null;
+  /** The capture's day in the configured timezone. */
+  date: string;
+  capturedAt: string;
+  imageHash: string;
+  details: ExtractedEvent | null;
+  story: EventSidecar["story"] | null;
+}
+
+/** Duplicates are copies set aside when their group was approved; cleanup leaves them alone. */
+export type ReviewDecision = "approved" | "rejected" | "duplicate";
+
+export interface LibraryAccount {
+  username: string;
+  userId: string | null;
+  eventCount: number;
+}
+
+export type ScanMode = "feed" | "watchlist";
+
+/** What started a scan: the menu or CLI, the timer, waking from sleep or unlocking. */
+export type ScanTrigger = "manual" | "interval" | "resume" | "unlock";
+
+export interface ScanRecord {
+  id: number;
+  mode: ScanMode;
+  trigger: ScanTrigger | null;
+  startedAt: string;
+  /** Null while the scan runs, and for good if the app quit or crashed mid-scan. */
+  finishedAt: string | null;
+  durationMs: number | null;
+  doneReason: string | null;
+  storyCount: number | null;
+  eventCount: number | null;
+  newEventCount: number | null;
+  hiddenSkipped: number | null;
+  cacheHits: number | null;
+  alreadySeen: number | null;
+  modelCalls: number | null;
+  estimatedSpend: number | null;
+  errorCount: number | null;
+  error: string | null;
+}
+
+// Each entry moves the schema up one version; never edit one that has shipped
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE accounts (
+    username TEXT PRIMARY KEY,
+    first_seen_at TEXT NOT NULL
+  );
+  CREATE TABLE scans (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    mode TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    story_count INTEGER,
+    event_count INTEGER,
+    error TEXT
+  );
+  CREATE TABLE events (
+    key TEXT PRIMARY KEY,
+    username TEXT NOT NULL REFERENCES accounts (username),
+    date TEXT NOT NULL,
+    captured_at TEXT NOT NULL,
+    image_hash TEXT NOT NULL,
+    details TEXT,
+    story TEXT,
+    scan_id INTEGER REFERENCES scans (id)
+  );
+  CREATE INDEX events_username ON events (username);
+  -- Decisions are archived rather than deleted when a new batch of events
+  -- starts a fresh review session
+  CREATE TABLE review_decisions (
+    event_key TEXT PRIMARY KEY REFERENCES events (key) ON DELETE CASCADE,
+    decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+    decided_at TEXT NOT NULL,
+    archived INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE accounts ADD COLUMN user_id TEXT;
+  ALTER TABLE events ADD COLUMN user_id TEXT;
+  `,
+  `
+  ALTER TABLE scans ADD COLUMN triggered_by TEXT;
+  ALTER TABLE scans ADD COLUMN done_reason TEXT;
+  ALTER TABLE scans ADD COLUMN new_event_count INTEGER;
+  ALTER TABLE scans ADD COLUMN hidden_skipped INTEGER;
+  ALTER TABLE scans ADD COLUMN cache_hits INTEGER;
+  ALTER TABLE scans ADD COLUMN already_seen INTEGER;
+  ALTER TABLE scans ADD COLUMN model_calls INTEGER;
+  ALTER TABLE scans ADD COLUMN estimated_spend REAL;
+  ALTER TABLE scans ADD COLUMN error_count INTEGER;
+  CREATE INDEX scans_started_at ON scans (started_at);
+  `,
+  `
+  CREATE TABLE review_decisions_new (
+    event_key TEXT PRIMARY KEY REFERENCES events (key) ON DELETE CASCADE,
+    decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected', 'duplicate')),
+    decided_at TEXT NOT NULL,
+    archived INTEGER NOT NULL DEFAULT 0
+  );
+  INSERT INTO review_decisions_new SELECT event_key, decision, decided_at, archived FROM review_decisions;
+  DROP TABLE review_decisions;
+  ALTER TABLE review_decisions_new RENAME TO review_decisions;
+  `,
+];
+
+const databases = new Map<string, Database.Database>();
+
+// The package itself is built for Electron. Plain Node (the CLI, the fixture
+// scan) loads the Node build that `npm run sqlite:node` keeps next to it.
+const NODE_BINDING = join(__dirname, "..", "..", "native", "node", "better_sqlite3.node");
+
+function nativeBinding(): string | undefined {
+  return !process.versions.electron && existsSync(NODE_BINDING) ? NODE_BINDING : undefined;
+}
+
+/** The active profile's library, created or brought up to date on first use. */
+function db(): Database.Database {
+  const path = join(getProfileDir(), "library.db");
+  let database = databases.get(path);
+  if (!database) {
+    mkdirSync(getProfileDir(), { recursive: true });
+    database = new Database(path, { nativeBinding: nativeBinding() });
+    database.pragma("journal_mode = WAL");
+    database.pragma("foreign_keys = ON");
+    const version = database.pragma("user_version", { simple: true }) as number;
+    for (let v = version; v < MIGRATIONS.length; v++) {
+      database.transaction(() => {
+        database!.exec(MIGRATIONS[v]!);
+        database!.pragma(`user_version = ${v + 1}`);
+      })();
+    }
+    databases.set(path, database);
+  }
+  return database;
+}
+
+/** Closes a profile's library, so its folder can be deleted. The next use reopens it. */
+export function closeLibrary(profileId: string): void {
+  const path = join(getProfileDir(profileId), "library.db");
+  databases.get(path)?.close();
+  databases.delete(path);
+}
+
+interface EventRow {
+  key: string;
+  username: string;
+  user_id: string | null;
+  date: string;
+  captured_at: string;
+  image_hash: string;
+  details: string | null;
+  story: string | null;
+}
+
+function toLibraryEvent(row: EventRow): LibraryEvent {
+  return {
+    key: row.key,
+    path: join(getEventsDir(), row.key),
+    username: row.username,
+    userId: row.user_id,
+    // Follows the timezone setting even if it changed after the file was saved
+    date: getDateString(new Date(row.captured_at)),
+    capturedAt: row.captured_at,
+    imageHash: row.image_hash,
+    details: row.details ? (JSON.parse(row.details) as ExtractedEvent) : null,
+    story: row.story ? (JSON.parse(row.story) as EventSidecar["story"]) : null,
+  };
+}
+
+/** Keys are paths under the events folder, always with forward slashes. */
+export function getEventKey(path: string): string {
+  return relative(getEventsDir(), path).split(sep).join("/");
+}
+
+function upsertAccount(database: Database.Database, username: string, userId: string | null, seenAt: string): void {
+  database
+    .prepare(
+      `INSERT INTO accounts (username, user_id, first_seen_at) VALUES (?, ?, ?)
+       ON CONFLICT (username) DO UPDATE SET user_id = COALESCE(excluded.user_id, accounts.user_id)`
+    )
+    .run(username, userId, seenAt);
+}
+
+export function recordEvent(
+  path: string,
+  username: string,
+  sidecar: EventSidecar,
+  scanId: number | null = null,
+  capturedAt: string = toZonedISOString()
+): void {
+  const key = getEventKey(path);
+  const date = key.split("/")[0]!;
+  const userId = sidecar.story?.authorId ?? null;
+  const database = db();
+  database.transaction(() => {
+    upsertAccount(database, username, userId, capturedAt);
+    database
+      .prepare(
+        `INSERT INTO events (key, username, user_id, date, captured_at, image_hash, details, story, scan_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET image_hash = excluded.image_hash, details = excluded.details, story = excluded.story`
+      )
+      .run(
+        key,
+        username,
+        userId,
+        date,
+        capturedAt,
+        sidecar.imageHash,
+        sidecar.event ? JSON.stringify(sidecar.event) : null,
+        sidecar.story ? JSON.stringify(sidecar.story) : null,
+        scanId
+      );
+  })();
+}
+
+export function listEvents(): LibraryEvent[] {
+  const rows = db().prepare("SELECT * FROM events ORDER BY julianday(captured_at)").all() as EventRow[];
+  return rows.map(toLibraryEvent);
+}
+
+export function getAccountEventKeys(username: string): string[] {
+  const rows = db().prepare("SELECT key FROM events WHERE username = ?").all(username) as { key: string }[];
+  return rows.map((row) => row.key);
+}
+
+/** Accounts with at least one saved event. */
+export function listAccounts(): LibraryAccount[] {
+  return db()
+    .prepare(
+      `SELECT events.username, accounts.user_id AS userId, COUNT(*) AS eventCount
+       FROM events JOIN accounts ON accounts.username = events.username
+       GROUP BY events.username ORDER BY events.username`
+    )
+    .all() as LibraryAccount[];
+}
+
+/** Decisions made in the current review session, by event key. */
+export function getReviewDecisions(): Map<string, ReviewDecision> {
+  const rows = db()
+    .prepare("SELECT event_key, decision FROM review_decisions WHERE archived = 0")
+    .all() as { event_key: string; decision: ReviewDecision }[];
+  return new Map(rows.map((row) => [row.event_key, row.decision]));
+}
+
+export function setReviewDecision(keys: string[], decision: ReviewDecision): void {
+  const database = db();
+  const upsert = database.prepare(
+    `INSERT INTO review_decisions (event_key, decision, decided_at, archived) VALUES (?, ?, ?, 0)
+     ON CONFLICT (event_key) DO UPDATE SET decision = excluded.decision, decided_at = excluded.decided_at, archived = 0`
+  );
+  const known = database.prepare("SELECT 1 FROM events WHERE key = ?");
+  const now = new Date().toISOString();
+  database.transaction(() => {
+    for (const key of keys) {
+      if (known.get(key)) upsert.run(key, decision, now);
+    }
+  })();
+}
+
+export function clearReviewDecisions(keys: string[], decision: ReviewDecision): void {
+  const database = db();
+  const remove = database.prepare("DELETE FROM review_decisions WHERE event_key = ? AND decision = ? AND archived = 0");
+  database.transaction(() => {
+    for (const key of keys) remove.run(key, decision);
+  })();
+}
+
+/** Keys of events rejected before the given instant, in any review session. */
+export function listRejectedKeys(decidedBefore: string): string[] {
+  const rows = db()
+    .prepare("SELECT event_key FROM review_decisions WHERE decision = 'rejected' AND julianday(decided_at) < julianday(?)")
+    .all(decidedBefore) as { event_key: string }[];
+  return rows.map((row) => row.event_key);
+}
+
+/** Drops events from the library, along with their review decisions. The files are the caller's. */
+export function removeEvents(keys: string[]): void {
+  const database = db();
+  const remove = database.prepare("DELETE FROM events WHERE key = ?");
+  database.transaction(() => {
+    for (const key of keys) remove.run(key);
+  })();
+}
+
+/** Ends the review session; its decisions stay on record but no longer apply. */
+export function archiveReviewDecisions(): void {
+  db().prepare("UPDATE review_decisions SET archived = 1 WHERE archived = 0").run();
+}
+
+/** Approved events in the current session, in the order they were approved. */
+export function listApprovedEvents(): LibraryEvent[] {
+  const rows = db()
+    .prepare(
+      `SELECT events.* FROM events JOIN review_decisions ON review_decisions.event_key = events.key
+       WHERE review_decisions.decision = 'approved' AND review_decisions.archived = 0
+       ORDER BY review_decisions.decided_at`
+    )
+    .all() as EventRow[];
+  return rows.map(toLibraryEvent);
+}
+
+export function recordScanStart(mode: ScanMode, trigger: ScanTrigger = "manual"): number {
+  const info = db()
+    .prepare("INSERT INTO scans (mode, triggered_by, started_at) VALUES (?, ?, ?)")
+    .run(mode, trigger, new Date().toISOString());
+  return Number(info.lastInsertRowid);
+}
+
+export function recordScanEnd(
+  scanId: number,
+  doneReason: string,
+  result: {
+    storyCount: number;
+    eventCount: number;
+    cacheHits: number;
+    alreadySeen: number;
+    hiddenSkipped?: number;
+    modelCalls?: number;
+    estimatedSpend?: number;
+    errorCount?: number;
+    error?: string;
+  }
+): void {
+  db()
+    .prepare(
+      `UPDATE scans SET finished_at = ?, done_reason = ?, story_count = ?, event_count = ?, cache_hits = ?,
+         already_seen = ?, hidden_skipped = ?, model_calls = ?, estimated_spend = ?, error_count = ?, error = ?
+       WHERE id = ?`
+    )
+    .run(
+      new Date().toISOString(),
+      doneReason,
+      result.storyCount,
+      result.eventCount,
+      result.cacheHits,
+      result.alreadySeen,
+      result.hiddenSkipped ?? null,
+      result.modelCalls ?? null,
+      result.estimatedSpend ?? null,
+      result.errorCount ?? null,
+      result.error ?? null,
+      scanId
+    );
+}
+
+/** New events are only known once the host has grouped duplicates, after the scan. */
+export function recordScanNewEvents(scanId: number, newEventCount: number): void {
+  db().prepare("UPDATE scans SET new_event_count = ? WHERE id = ?").run(newEventCount, scanId);
+}
+
+interface ScanRow {
+  id: number;
+  mode: ScanMode;
+  triggered_by: ScanTrigger | null;
+  started_at: string;
+  finished_at: string | null;
+  done_reason: string | null;
+  story_count: number | null;
+  event_count: number | null;
+  new_event_count: number | null;
+  hidden_skipped: number | null;
+  cache_hits: number | null;
+  already_seen: number | null;
+  model_calls: number | null;
+  estimated_spend: number | null;
+  error_count: number | null;
+  error: string | null;
+}
+
+/** The most recent scans, newest first. */
+export function listScans(limit = 200): ScanRecord[] {
+  const rows = db().prepare("SELECT * FROM scans ORDER BY started_at DESC, id DESC LIMIT ?").all(limit) as ScanRow[];
+  return rows.map((row) => ({
+    id: row.id,
+    mode: row.mode,
+    trigger: row.triggered_by,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    durationMs: row.finished_at ? Date.parse(row.finished_at) - Date.parse(row.started_at) : null,
+    doneReason: row.done_reason,
+    storyCount: row.story_count,
+    eventCount: row.event_count,
+    newEventCount: row.new_event_count,
+    hiddenSkipped: row.hidden_skipped,
+    cacheHits: row.cache_hits,
+    alreadySeen: row.already_seen,
+    modelCalls: row.model_calls,
+    estimatedSpend: row.estimated_spend,
+    errorCount: row.error_count,
+    error: row.error,
+  }));
+}
+
+// Pre-database review lists held event keys in the app's settings
+interface LegacyReviewSchema {
+  reviewedEvents: string[];
+  rejectedEvents: string[];
+}
+
+const legacyConfig = defineStore<LegacyReviewSchema>("config");
+
+function isMigrated(database: Database.Database, step: string): boolean {
+  return !!database.prepare("SELECT 1 FROM meta WHERE key = ?").get(step);
+}
+
+function markMigrated(database: Database.Database, step: string): void {
+  database.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(step, new Date().toISOString());
+}
+
+/**
+ * Imports an events folder written before the library database existed:
+ * every screenshot and its sidecar, plus the review lists from the settings
+ * file.
+ */
+async function importLegacyEvents(): Promise<void> {
+  const database = db();
+  if (isMigrated(database, "legacy_imported")) return;
+
+  const accounts = await scanAccountImages();
+  const imported: { path: string; username: string; sidecar: EventSidecar; capturedAt: string }[] = [];
+  for (const [username, images] of Object.entries(accounts)) {
+    for (const img of images) {
+      const sidecar = await readEventSidecar(img.path);
+      // Screenshots saved before sidecars existed get hashed now
+      const imageHash = sidecar?.imageHash ?? (await computeImageHash(img.path).catch(() => ""));
+      const time = img.path.match(/_(\d{2}-\d{2}-\d{2})\.png$/)?.[1];
+      const capturedAt = (time ? legacyCaptureTime(img.date, time) : new Date(`${img.date}T00:00:00.000Z`)).toISOString();
+      imported.push({ path: img.path, username, sidecar: { imageHash, event: null, ...sidecar }, capturedAt });
+    }
+  }
+
+  database.transaction(() => {
+    for (const { path, username, sidecar, capturedAt } of imported) {
+      recordEvent(path, username, sidecar, null, capturedAt);
+    }
+    // An event on both lists was exported, so approval wins
+    const legacy = legacyConfig();
+    setReviewDecision(legacy.get("rejectedEvents") ?? [], "rejected");
+    setReviewDecision(legacy.get("reviewedEvents") ?? [], "approved");
+    markMigrated(database, "legacy_imported");
+  })();
+}
+
+/**
+ * When a story saved by an older version was captured. Those named the day
+ * folder by the UTC date but the file by the computer's local time, so the
+ * instant is the local time, on the day either side if need be, whose UTC
+ * date is the folder's.
+ */
+function legacyCaptureTime(folder: string, time: string): Date {
+  const [year, month, day] = folder.split("-").map(Number) as [number, number, number];
+  const [hour, minute, second] = time.split("-").map(Number) as [number, number, number];
+  const candidates = [0, -1, 1].map((shift) => new Date(year, month - 1, day + shift, hour, minute, second));
+  return candidates.find((c) => c.toISOString().slice(0, 10) === folder) ?? candidates[0]!;
+}
+
+// Filenames before handles were kept intact, e.g. some.venue -> some_venue
+function legacyFileName(username: string): string {
+  return username.replace(/[^a-zA-Z0-9_]/g, "_");
+}
+
+const HANDLE_PATTERN = /^[a-zA-Z0-9._]+$/;
+
+/**
+ * Gives events saved under a mangled filename their real handle back, and
+ * renames their files to match. The handle comes from the sidecar when the
+ * story recorded it, otherwise from a known handle that mangles to the same
+ * name, if exactly one does. Resolves to the old names that are gone.
+ */
+async function rekeyLegacyEvents(knownHandles: string[]): Promise<Map<string, string>> {
+  const database = db();
+  const renamed = new Map<string, string>();
+  if (isMigrated(database, "events_rekeyed")) return renamed;
+
+  const eventsDir = getEventsDir();
+  const rows = database.prepare("SELECT key, username, user_id, story FROM events").all() as Pick<
+    EventRow,
+    "key" | "username" | "user_id" | "story"
+  >[];
+  const moveEvent = database.transaction((oldKey: string, key: string, username: string, userId: string | null, story: string | null) => {
+    // The key changes on both sides of the foreign key, so check it at commit
+    database.pragma("defer_foreign_keys = ON");
+    upsertAccount(database, username, userId, new Date().toISOString());
+    database
+      .prepare("UPDATE events SET key = ?, username = ?, user_id = COALESCE(?, user_id), story = ? WHERE key = ?")
+      .run(key, username, userId, story, oldKey);
+    database.prepare("UPDATE review_decisions SET event_key = ? WHERE event_key = ?").run(key, oldKey);
+  });
+
+  for (const row of rows) {
+    const story = row.story ? (JSON.parse(row.story) as NonNullable<EventSidecar["story"]>) : null;
+    const candidates = knownHandles.filter((h) => legacyFileName(h) === row.username);
+    const username =
+      story?.author && HANDLE_PATTERN.test(story.author)
+        ? story.author
+        : candidates.length === 1
+          ? candidates[0]!
+          : row.username;
+    const userId = story?.authorId ?? row.user_id;
+
+    // Filenames end in _HH-MM-SS.png; only the part before that changes
+    const [date, file] = row.key.split("/") as [string, string];
+    const suffix = file.match(/_\d{2}-\d{2}-\d{2}\.png$/)?.[0] ?? "";
+    const fileName = suffix ? `${accountFileName(username)}${suffix}` : file;
+    if (username === row.username && userId === row.user_id && fileName === file) continue;
+
+    let key = row.key;
+    if (fileName !== file && !existsSync(join(eventsDir, date, fileName))) {
+      const oldPath = join(eventsDir, row.key);
+      const newPath = join(eventsDir, date, fileName);
+      await rename(oldPath, newPath);
+      if (existsSync(getSidecarPath(oldPath))) await rename(getSidecarPath(oldPath), getSidecarPath(newPath));
+      if (story?.videoFile && existsSync(join(eventsDir, date, story.videoFile))) {
+        const videoFile = fileName.replace(/\.png$/, ".mp4");
+        await rename(join(eventsDir, date, story.videoFile), join(eventsDir, date, videoFile));
+        story.videoFile = videoFile;
+        const sidecar = await readEventSidecar(newPath);
+        if (sidecar) await writeFile(getSidecarPath(newPath), JSON.stringify({ ...sidecar, story }, null, 2));
+      }
+      key = `${date}/${fileName}`;
+    }
+
+    moveEvent(row.key, key, username, userId, story ? JSON.stringify(story) : null);
+    if (username !== row.username) renamed.set(row.username, username);
+  }
+
+  database.transaction(() => {
+    database.prepare("DELETE FROM accounts WHERE username NOT IN (SELECT username FROM events)").run();
+    markMigrated(database, "events_rekeyed");
+  })();
+
+  // Only names with nothing left under them were really renames
+  const stillUsed = database.prepare("SELECT 1 FROM events WHERE username = ?");
+  for (const name of renamed.keys()) {
+    if (stillUsed.get(name)) renamed.delete(name);
+  }
+  return renamed;
+}
+
+/**
+ * Moves events saved by older versions into the folder and filename their
+ * capture time gets in the configured timezone, and records that time with
+ * its offset. Events saved since already carry an offset rather than a Z.
+ */
+async function localizeCaptureTimes(): Promise<void> {
+  const database = db();
+  if (isMigrated(database, "captures_localized")) return;
+
+  const eventsDir = getEventsDir();
+  const rows = database
+    .prepare("SELECT key, captured_at, story FROM events WHERE captured_at LIKE '%Z'")
+    .all() as Pick<EventRow, "key" | "captured_at" | "story">[];
+  const moveEvent = database.transaction((oldKey: string, key: string, capturedAt: string, story: string | null) => {
+    database.pragma("defer_foreign_keys = ON");
+    database
+      .prepare("UPDATE events SET key = ?, date = ?, captured_at = ?, story = ? WHERE key = ?")
+      .run(key, key.split("/")[0]!, capturedAt, story, oldKey);
+    database.prepare("UPDATE review_decisions SET event_key = ? WHERE event_key = ?").run(key, oldKey);
+  });
+  const oldFolders = new Set<string>();
+
+  for (const row of rows) {
+    const [folder, file] = row.key.split("/") as [string, string];
+    const time = file.match(/_(\d{2}-\d{2}-\d{2})\.png$/);
+    const capturedAt = time ? legacyCaptureTime(folder, time[1]!) : new Date(row.captured_at);
+    const date = getDateString(capturedAt);
+    const fileName = time ? `${file.slice(0, time.index)}_${getTimeString(capturedAt)}.png` : file;
+    const story = row.story ? (JSON.parse(row.story) as NonNullable<EventSidecar["story"]>) : null;
+
+    let key = row.key;
+    const oldPath = join(eventsDir, row.key);
+    const newPath = join(eventsDir, date, fileName);
+    if (`${date}/${fileName}` !== row.key && existsSync(oldPath) && !existsSync(newPath)) {
+      await mkdir(join(eventsDir, date), { recursive: true });
+      await rename(oldPath, newPath);
+      if (existsSync(getSidecarPath(oldPath))) await rename(getSidecarPath(oldPath), getSidecarPath(newPath));
+      if (story?.videoFile && existsSync(join(eventsDir, folder, story.videoFile))) {
+        const videoFile = fileName.replace(/\.png$/, ".mp4");
+        await rename(join(eventsDir, folder, story.videoFile), join(eventsDir, date, videoFile));
+        story.videoFile = videoFile;
+      }
+      key = `${date}/${fileName}`;
+      oldFolders.add(folder);
+    }
+
+    const zoned = toZonedISOString(capturedAt);
+    const sidecar = await readEventSidecar(join(eventsDir, key));
+    if (sidecar) {
+      const updated = { ...sidecar, capturedAt: zoned, ...(story ? { story } : {}) };
+      await writeFile(getSidecarPath(join(eventsDir, key)), JSON.stringify(updated, null, 2));
+    }
+    moveEvent(row.key, key, zoned, story ? JSON.stringify(story) : null);
+  }
+
+  // Folders left empty by the move; rmdir refuses any that still hold files
+  for (const folder of oldFolders) {
+    await rmdir(join(eventsDir, folder)).catch(() => {});
+  }
+  markMigrated(database, "captures_localized");
+}
+
+// 64 hex characters; shorter ones came from the old 64-bit hash
+const IMAGE_HASH_LENGTH = 64;
+
+/**
+ * Re-hashes events saved with the old, much coarser image hash, so duplicate
+ * grouping compares like with like.
+ */
+async function upgradeImageHashes(): Promise<void> {
+  const database = db();
+  if (isMigrated(database, "hashes_upgraded")) return;
+
+  const rows = database
+    .prepare("SELECT key FROM events WHERE length(image_hash) != ?")
+    .all(IMAGE_HASH_LENGTH) as Pick<EventRow, "key">[];
+  const update = database.prepare("UPDATE events SET image_hash = ? WHERE key = ?");
+  for (const row of rows) {
+    const path = join(getEventsDir(), row.key);
+    const imageHash = await computeImageHash(path).catch(() => "");
+    update.run(imageHash, row.key);
+    const sidecar = await readEventSidecar(path);
+    if (sidecar) await writeFile(getSidecarPath(path), JSON.stringify({ ...sidecar, imageHash }, null, 2));
+  }
+  markMigrated(database, "hashes_upgraded");
+}
+
+/**
+ * Brings the active profile's library up to date with the files on disk:
+ * imports a pre-database events folder, re-keys events saved under mangled
+ * handles, re-buckets older captures by the configured timezone and re-hashes
+ * their images. Each step runs once per profile. Resolves to the old
+ * account names that now go by a real handle, so lists of hidden accounts can
+ * follow them; `knownHandles` helps match events that never recorded one.
+ */
+export async function migrateLibrary(knownHandles: string[] = []): Promise<Map<string, string>> {
+  await importLegacyEvents();
+  const renamed = await rekeyLegacyEvents(knownHandles);
+  await localizeCaptureTimes();
+  await upgradeImageHashes();
+  return renamed;
+}
@@ -0,0 +1,430 @@
+// The evaluate callbacks below run in the page, against real DOM elements
+/// <reference lib="dom" />
+import type { Locator, Page } from "playwright";
+import sharp from "sharp";
+import { findSelector, findAllSelector, type SelectorKey } from "./selectors";
+
+// Endpoints that carry story items (reels_media, the GraphQL equivalents)
+const STORY_PAYLOAD_URL = /\/api\/v1\/feed\/reels_media|\/graphql\/query|\/api\/graphql/;
+const PAYLOAD_WAIT_MS = 1000;
+
+// Where to sample a video story, as fractions of its duration. Flyers often
+// animate in, and details tend to land late in the clip.
+const VIDEO_SAMPLE_POINTS = [0.15, 0.4, 0.65, 0.9];
+const VIDEO_SEEK_TIMEOUT_MS = 1500;
+const CONTACT_SHEET_CELL = { width: 540, height: 960 };
+
+export type MediaSource = "network" | "element-screenshot" | "viewport-crop";
+
+export interface StoryStickers {
+  linkUrls: string[];
+  mentions: string[];
+  locations: string[];
+}
+
+export interface StoryMediaInfo {
+  storyId: string;
+  imageUrl: string | null;
+  videoUrl: string | null;
+  takenAt: number | null; // unix seconds
+  username: string | null;
+  userId: string | null;
+  stickers: StoryStickers;
+}
+
+export interface StoryMetadata extends StoryStickers {
+  storyId: string | null;
+  postedAt: string | null;
+  author: string | null;
+  authorId: string | null;
+  mediaSource: MediaSource;
+  mediaType: "image" | "video";
+  sampledFrames: number;
+}
+
+export interface CapturedStory {
+  image: Buffer; // PNG; for video stories, the most detailed sampled frame
+  video: Buffer | null;
+  /** Sampled video frames in a grid, for the classifier; null for stills */
+  contactSheet: Buffer | null;
+  metadata: StoryMetadata;
+}
+
+export interface StoryMediaIndex {
+  get(storyId: string): StoryMediaInfo | undefined;
+  /** Story IDs of a reel (an account's stories, or a highlight) in viewing order. */
+  getReel(reelId: string): string[] | undefined;
+  /** The body of a story's media as the viewer loaded it, handed over once. */
+  takeMedia(url: string): Buffer | undefined;
+}
+
+interface MediaCandidate {
+  url?: unknown;
+  width?: unknown;
+}
+
+function largest(candidates: unknown): string | null {
+  if (!Array.isArray(candidates)) return null;
+  let best: { url: string; width: number } | null = null;
+  for (const c of candidates as MediaCandidate[]) {
+    if (typeof c?.url !== "string") continue;
+    const width = typeof c.width === "number" ? c.width : 0;
+    if (!best || width > best.width) best = { url: c.url, width };
+  }
+  return best ? best.url : null;
+}
+
+// Link stickers point at Instagram's redirect shim; keep the real destination
+function unwrapLinkShim(href: string): string {
+  try {
+    const url = new URL(href, "https://www.instagram.com");
+    if (url.hostname === "l.instagram.com") {
+      return url.searchParams.get("u") ?? href;
+    }
+    return url.href;
+  } catch {
+    return href;
+  }
+}
+
+function strings(values: unknown[]): string[] {
+  return values.filter((v): v is string => typeof v === "string" && v.length > 0);
+}
+
+type PayloadObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is PayloadObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Follows a path of keys through nested payload objects
+function dig(value: unknown, ...keys: string[]): unknown {
+  for (const key of keys) {
+    if (!isObject(value)) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+function payloadStickers(item: PayloadObject): StoryStickers {
+  const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+  return {
+    linkUrls: strings(list(item.story_link_stickers).map((s) => dig(s, "story_link", "url"))).map(unwrapLinkShim),
+    mentions: strings(list(item.reel_mentions).map((m) => dig(m, "user", "username"))),
+    locations: strings(list(item.story_locations).map((l) => dig(l, "location", "name"))),
+  };
+}
+
+function itemStoryId(item: PayloadObject): string {
+  return String(item.pk ?? String(item.id).split("_")[0]);
+}
+
+// Story items look like { pk, taken_at, user, image_versions2, video_versions }
+// wherever they sit in the payload, so walk the whole tree for them. Reels
+// ({ id, items }) are recorded too, since highlight URLs don't name the frame.
+function collectStoryItems(node: unknown, found: StoryMediaInfo[], reels: Map<string, string[]>): void {
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectStoryItems(child, found, reels));
+    return;
+  }
+  if (!isObject(node)) return;
+
+  const item = node;
+  if (item.id !== undefined && Array.isArray(item.items)) {
+    const reelId = String(item.id).replace(/^highlight:/, "");
+    reels.set(reelId, item.items.filter(isObject).map(itemStoryId));
+  }
+  if (item.image_versions2 && (item.pk !== undefined || typeof item.id === "string")) {
+    const storyId = itemStoryId(item);
+    const username = dig(item, "user", "username");
+    const userPk = dig(item, "user", "pk");
+    found.push({
+      storyId,
+      imageUrl: largest(dig(item, "image_versions2", "candidates")),
+      videoUrl: largest(item.video_versions),
+      takenAt: typeof item.taken_at === "number" ? item.taken_at : null,
+      username: typeof username === "string" ? username : null,
+      userId: userPk !== undefined ? String(userPk) : null,
+      stickers: payloadStickers(item),
+    });
+  }
+
+  for (const value of Object.values(item)) {
+    if (value && typeof value === "object") collectStoryItems(value, found, reels);
+  }
+}
+
+/**
+ * Indexes story items from the viewer's own API traffic as it loads, so the
+ * original media and its metadata can be looked up by story ID. Media the
+ * viewer loads for those items is kept too, so it isn't fetched twice.
+ */
+export function watchStoryMedia(page: Page): StoryMediaIndex {
+  const items = new Map<string, StoryMediaInfo>();
+  const reels = new Map<string, string[]>();
+  const mediaUrls = new Set<string>();
+  const bodies = new Map<string, Buffer>();
+
+  page.on("response", async (response) => {
+    if (mediaUrls.has(response.url())) {
+      // Partial responses are streamed video; those are downloaded whole later
+      if (response.status() !== 200) return;
+      const body = await response.body().catch(() => null);
+      if (body) bodies.set(response.url(), body);
+      return;
+    }
+    if (!STORY_PAYLOAD_URL.test(response.url())) return;
+    try {
+      // Some endpoints prefix JSON with an anti-hijacking guard
+      const text = (await response.text()).replace(/^for \(;;\);/, "");
+      const found: StoryMediaInfo[] = [];
+      collectStoryItems(JSON.parse(text), found, reels);
+      for (const info of found) {
+        items.set(info.storyId, info);
+        if (info.imageUrl) mediaUrls.add(info.imageUrl);
+        if (info.videoUrl) mediaUrls.add(info.videoUrl);
+      }
+    } catch {
+      // Not JSON, or the page navigated away before the body arrived
+    }
+  });
+
+  return {
+    get: (storyId) => items.get(storyId),
+    getReel: (reelId) => reels.get(reelId),
+    takeMedia: (url) => {
+      const body = bodies.get(url);
+      bodies.delete(url);
+      mediaUrls.delete(url);
+      return body;
+    },
+  };
+}
+
+// Highlight URLs carry the highlight's ID, not the frame's, so they don't count
+export function getStoryId(url: string): string | null {
+  const match = url.match(/\/stories\/(?!highlights\/)[^/]+\/(\d+)/);
+  return match ? match[1]! : null;
+}
+
+async function attributes(page: Page, key: SelectorKey, name: string): Promise<string[]> {
+  const elements = await findAllSelector(page, key);
+  const values = await Promise.all(elements.map((el) => el.getAttribute(name).catch(() => null)));
+  return strings(values);
+}
+
+async function texts(page: Page, key: SelectorKey): Promise<string[]> {
+  const elements = await findAllSelector(page, key);
+  const values = await Promise.all(elements.map((el) => el.textContent().catch(() => null)));
+  return strings(values.map((v) => v?.trim()));
+}
+
+// Stickers rendered over the story. Used when the payload was missed, and to
+// catch anything the payload doesn't carry.
+async function readDomStickers(page: Page, author: string | null): Promise<StoryStickers & { postedAt: string | null }> {
+  const linkUrls = (await attributes(page, "linkSticker", "href")).map(unwrapLinkShim);
+  const mentions = (await attributes(page, "mentionSticker", "href"))
+    .filter((href) => /^\/[A-Za-z0-9._]+\/?$/.test(href))
+    .map((href) => href.replace(/\//g, ""))
+    .filter((name) => name !== author);
+  const locations = await texts(page, "locationSticker");
+  const [postedAt] = await attributes(page, "storyTimestamp", "datetime");
+  return { linkUrls, mentions, locations, postedAt: postedAt ?? null };
+}
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+async function waitForMediaInfo(page: Page, index: StoryMediaIndex, storyId: string) {
+  const deadline = Date.now() + PAYLOAD_WAIT_MS;
+  let info = index.get(storyId);
+  while (!info && Date.now() < deadline) {
+    await page.waitForTimeout(100);
+    info = index.get(storyId);
+  }
+  return info;
+}
+
+// Only for media the viewer didn't load whole itself
+async function download(page: Page, index: StoryMediaIndex, url: string): Promise<Buffer | null> {
+  const loaded = index.takeMedia(url);
+  if (loaded) return loaded;
+  try {
+    const response = await page.context().request.get(url);
+    return response.ok() ? await response.body() : null;
+  } catch {
+    return null;
+  }
+}
+
+// The story itself is the largest visible media element; avatars are tiny
+async function findStoryMedia(page: Page): Promise<{ element: Locator; isVideo: boolean } | null> {
+  const media = await findSelector(page, "storyMedia");
+  if (!media) return null;
+  const count = await media.count().catch(() => 0);
+
+  let best: { index: number; area: number } | null = null;
+  for (let i = 0; i < count; i++) {
+    const box = await media.nth(i).boundingBox().catch(() => null);
+    if (!box) continue;
+    const area = box.width * box.height;
+    if (!best || area > best.area) best = { index: i, area };
+  }
+  if (!best || best.area < 100 * 100) return null;
+
+  const element = media.nth(best.index);
+  const tag = await element.evaluate((el) => el.tagName).catch(() => "");
+  return { element, isVideo: tag.toLowerCase() === "video" };
+}
+
+/**
+ * Pauses the story's video and screenshots it at each sample point. Returns
+ * no frames if the video never reports a duration (still loading, or a live
+ * stream), so the caller falls back to a single capture.
+ */
+async function sampleVideoFrames(video: Locator): Promise<Buffer[]> {
+  const duration = await video
+    .evaluate(
+      (el: HTMLVideoElement, timeoutMs: number) =>
+        new Promise<number>((resolve) => {
+          el.pause();
+          if (el.readyState >= 1) return resolve(el.duration);
+          el.addEventListener("loadedmetadata", () => resolve(el.duration), { once: true });
+          setTimeout(() => resolve(NaN), timeoutMs);
+        }),
+      VIDEO_SEEK_TIMEOUT_MS
+    )
+    .catch(() => NaN);
+  if (!Number.isFinite(duration) || duration <= 0) return [];
+
+  const frames: Buffer[] = [];
+  for (const point of VIDEO_SAMPLE_POINTS) {
+    const seeked = await video
+      .evaluate(
+        (el: HTMLVideoElement, { time, timeoutMs }: { time: number; timeoutMs: number }) =>
+          new Promise<boolean>((resolve) => {
+            el.addEventListener("seeked", () => resolve(true), { once: true });
+            setTimeout(() => resolve(false), timeoutMs);
+            el.currentTime = time;
+          }),
+        { time: duration * point, timeoutMs: VIDEO_SEEK_TIMEOUT_MS }
+      )
+      .catch(() => false);
+    if (!seeked) continue;
+    const frame = await video.screenshot().catch(() => null);
+    if (frame) frames.push(frame);
+  }
+
+  // Let the viewer carry on as if nothing happened
+  await video.evaluate((el: HTMLVideoElement) => el.play()?.catch(() => {})).catch(() => {});
+  return frames;
+}
+
+// Frames with a flyer on them carry far more detail than a blank intro or an
+// outro fade, so entropy is a good enough stand-in for "best frame"
+async function pickRepresentativeFrame(frames: Buffer[]): Promise<Buffer> {
+  let best = { frame: frames[0]!, entropy: -1 };
+  for (const frame of frames) {
+    const { entropy } = await sharp(frame).stats();
+    if (entropy > best.entropy) best = { frame, entropy };
+  }
+  return sharp(best.frame).png().toBuffer();
+}
+
+async function buildContactSheet(frames: Buffer[]): Promise<Buffer> {
+  const { width, height } = CONTACT_SHEET_CELL;
+  const columns = Math.min(frames.length, 2);
+  const rows = Math.ceil(frames.length / columns);
+  const cells = await Promise.all(
+    frames.map((frame) => sharp(frame).resize(width, height, { fit: "cover" }).png().toBuffer())
+  );
+
+  return sharp({
+    create: { width: width * columns, height: height * rows, channels: 3, background: "#000000" },
+  })
+    .composite(cells.map((input, i) => ({ input, left: (i % columns) * width, top: Math.floor(i / columns) * height })))
+    .png()
+    .toBuffer();
+}
+
+async function cropViewport(page: Page): Promise<Buffer> {
+  const viewportSize = page.viewportSize();
+  if (viewportSize) {
+    const storyWidth = 405;
+    const storyX = (viewportSize.width - storyWidth) / 2;
+    return page.screenshot({
+      clip: {
+        x: storyX,
+        y: 0,
+        width: storyWidth,
+        height: viewportSize.height,
+      },
+    });
+  }
+  return page.screenshot({
+    clip: { x: 437, y: 0, width: 405, height: 720 },
+  });
+}
+
+/**
+ * Gets the current story's media: the original file from the network when the
+ * payload was seen, else a screenshot of the measured story element, else the
+ * fixed centre crop the scraper always used. Video stories are also sampled
+ * at several points so a flyer that appears mid-clip isn't missed. Pass the
+ * story ID when the URL doesn't carry it, as with highlights.
+ */
+export async function captureStory(
+  page: Page,
+  index: StoryMediaIndex,
+  storyId: string | null = getStoryId(page.url())
+): Promise<CapturedStory> {
+  const info = storyId ? await waitForMediaInfo(page, index, storyId) : undefined;
+  const author = info?.username ?? page.url().match(/\/stories\/(?!highlights\/)([^/]+)\//)?.[1] ?? null;
+  const dom = await readDomStickers(page, author);
+
+  const media = await findStoryMedia(page);
+  const isVideo = !!info?.videoUrl || !!media?.isVideo;
+  const frames = media?.isVideo ? await sampleVideoFrames(media.element) : [];
+
+  const metadata = (mediaSource: MediaSource): StoryMetadata => ({
+    storyId,
+    postedAt: info?.takenAt ? new Date(info.takenAt * 1000).toISOString() : dom.postedAt,
+    author,
+    authorId: info?.userId ?? null,
+    mediaSource,
+    linkUrls: unique([...(info?.stickers.linkUrls ?? []), ...dom.linkUrls]),
+    mentions: unique([...(info?.stickers.mentions ?? []), ...dom.mentions]),
+    locations: unique([...(info?.stickers.locations ?? []), ...dom.locations]),
+    mediaType: isVideo ? "video" : "image",
+    sampledFrames: frames.length,
+  });
+
+  if (info?.imageUrl) {
+    const original = await download(page, index, info.imageUrl);
+    if (original) {
+      const cover = await sharp(original).png().toBuffer().catch(() => null);
+      if (cover) {
+        const video = info.videoUrl ? await download(page, index, info.videoUrl) : null;
+        // A video's cover is just its first frame, so it competes with the samples
+        const image = frames.length > 0 ? await pickRepresentativeFrame([cover, ...frames]) : cover;
+        const contactSheet = frames.length > 1 ? await buildContactSheet(frames) : null;
+        return { image, video, contactSheet, metadata: metadata("network") };
+      }
+    }
+  }
+
+  if (frames.length > 0) {
+    return {
+      image: await pickRepresentativeFrame(frames),
+      video: null,
+      contactSheet: frames.length > 1 ? await buildContactSheet(frames) : null,
+      metadata: metadata("element-screenshot"),
+    };
+  }
+
+  const element = media ? await media.element.screenshot().catch(() => null) : null;
+  if (element) {
+    return { image: element, video: null, contactSheet: null, metadata: metadata("element-screenshot") };
+  }
+
+  return { image: await cropViewport(page), video: null, contactSheet: null, metadata: metadata("viewport-crop") };
+}
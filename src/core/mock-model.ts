@@ -0,0 +1,61 @@
+import { createHash } from "crypto";
+import type { LanguageModel } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import type { StoryExtraction } from "./vision";
+
+type MockCallOptions = Parameters<MockLanguageModelV3["doGenerate"]>[0];
+
+function fingerprintImages(prompt: MockCallOptions["prompt"]): string {
+  const hash = createHash("sha1");
+  for (const message of prompt) {
+    if (message.role !== "user") continue;
+    for (const part of message.content) {
+      if (part.type !== "file") continue;
+      hash.update(part.data instanceof URL ? part.data.href : part.data);
+    }
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Offline model for tests and development. The verdict is derived from a hash
+ * of the image bytes, so the same screenshot always gets the same answer.
+ */
+export function createMockVisionModel(modelId: string): LanguageModel {
+  return new MockLanguageModelV3({
+    provider: "mock",
+    modelId,
+    doGenerate: async (options: MockCallOptions) => {
+      const fingerprint = fingerprintImages(options.prompt);
+      const isEvent = parseInt(fingerprint.slice(0, 2), 16) % 2 === 0;
+      const extraction: StoryExtraction = {
+        isEvent,
+        event: isEvent
+          ? {
+              title: `Mock Event ${fingerprint.slice(0, 6)}`,
+              startDate: null,
+              startTime: null,
+              endDate: null,
+              endTime: null,
+              venueName: null,
+              address: null,
+              price: null,
+              ticketUrl: null,
+              organizerHandles: [],
+              rawText: "",
+            }
+          : null,
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(extraction) }],
+        finishReason: { unified: "stop", raw: undefined },
+        usage: {
+          inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+          outputTokens: { total: 0, text: 0, reasoning: 0 },
+        },
+        warnings: [],
+      };
+    },
+  });
+}
@@ -1,21 +1,21 @@
 import { join } from "path";
-import { app } from "electron";
-import { existsSync } from "fs";
+import { existsSync, readdirSync } from "fs";
+import { getEnvironment } from "./environment";
 
 export function getPlaywrightBrowserPath(): string | undefined {
-  // In development, let Playwright use its default browser location
-  if (!app.isPackaged) {
-    return undefined;
-  }
+  return getEnvironment().browserPath;
+}
 
-  // In production, use the bundled browser from extraResources
-  const resourcesPath = process.resourcesPath;
+/**
+ * Finds the Chromium that packaged builds carry in extraResources. In
+ * development there is none, and Playwright uses its default browser location.
+ */
+export function findBundledBrowser(resourcesPath: string): string | undefined {
   const browsersDir = join(resourcesPath, "playwright-browsers");
 
   // Find the chromium directory
   if (existsSync(browsersDir)) {
-    const { readdirSync } = require("fs");
-    const entries = readdirSync(browsersDir) as string[];
+    const entries = readdirSync(browsersDir);
     const chromiumDir = entries.find((e: string) => e.startsWith("chromium-"));
     if (chromiumDir) {
       const platform = process.platform;
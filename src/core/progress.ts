@@ -0,0 +1,91 @@
+import type { ScanResult } from "./scraper";
+import type { SelectorKey } from "./selectors";
+import { formatBudgetLimit } from "./budget";
+
+export type NavigationStage = "launching" | "feed" | "story-tray" | "viewer" | "account" | "highlights";
+
+export type DoneReason = "end-of-stories" | "exited-viewer" | "no-stories" | "stopped" | "limit-reached" | "failed";
+
+/**
+ * Everything runScraper reports while it runs. Every scan ends with exactly
+ * one "done" event carrying the final result.
+ */
+export type ScanProgressEvent =
+  | { type: "navigating"; stage: NavigationStage; saveDir?: string; username?: string }
+  | { type: "story-started"; index: number; username: string }
+  | { type: "skipped-hidden"; index: number; username: string }
+  | { type: "no-active-stories"; username: string }
+  | { type: "skipped-seen"; username: string }
+  | { type: "classified"; index: number; username: string; isEvent: boolean; cached: boolean; savedPath?: string }
+  | { type: "stuck"; url: string }
+  | { type: "selector-missing"; key: SelectorKey; url: string }
+  | { type: "paused" }
+  | { type: "resumed" }
+  | { type: "error"; message: string; index?: number }
+  | { type: "done"; reason: DoneReason; result: ScanResult };
+
+export type ProgressListener = (event: ScanProgressEvent) => void;
+
+function formatSummary(result: ScanResult): string {
+  const seen = result.alreadySeen > 0 ? `, ${result.alreadySeen} already seen` : "";
+  return `Processed ${result.storyCount} stories, found ${result.eventCount} events (${result.cacheHits} cache hits${seen}).`;
+}
+
+export function formatProgressEvent(event: ScanProgressEvent): string {
+  switch (event.type) {
+    case "navigating":
+      switch (event.stage) {
+        case "launching":
+          return "Starting Instagram story scraper...";
+        case "feed":
+          return "Navigating to Instagram...";
+        case "story-tray":
+          return "Looking for stories...";
+        case "viewer":
+          return `Saving events to: ${event.saveDir ?? ""}`;
+        case "account":
+          return `Opening @${event.username ?? ""}'s stories...`;
+        case "highlights":
+          return `Checking @${event.username ?? ""}'s highlights...`;
+      }
+    case "story-started":
+      return `Story ${event.index}: @${event.username}`;
+    case "skipped-hidden":
+      return "  -> Skipped (account hidden)";
+    case "skipped-seen":
+      return "  -> Skipped (already processed)";
+    case "no-active-stories":
+      return `  -> @${event.username} has no active stories`;
+    case "classified": {
+      const cached = event.cached ? " (seen before)" : "";
+      return event.isEvent ? `  -> EVENT DETECTED! Saved${cached}` : `  -> Not an event, discarded${cached}`;
+    }
+    case "stuck":
+      return "Stuck on same content, skipping to next user...";
+    case "selector-missing":
+      return `Nothing matched selector "${event.key}" on ${event.url}`;
+    case "paused":
+      return "Scan paused.";
+    case "resumed":
+      return "Scan resumed.";
+    case "error":
+      return event.index !== undefined ? `  -> Error checking story: ${event.message}` : `Error: ${event.message}`;
+    case "done":
+      switch (event.reason) {
+        case "no-stories":
+          return "No stories found.";
+        case "stopped":
+          return `Scan stopped. ${formatSummary(event.result)}`;
+        case "limit-reached":
+          return event.result.limitReached
+            ? `Reached the ${formatBudgetLimit(event.result.limitReached)}. ${formatSummary(event.result)}`
+            : `Reached a scan limit. ${formatSummary(event.result)}`;
+        case "failed":
+          return `Scan failed: ${event.result.error ?? "unknown error"}`;
+        case "end-of-stories":
+          return `Reached end of stories. Done! ${formatSummary(event.result)}`;
+        case "exited-viewer":
+          return `Exited story view. Done! ${formatSummary(event.result)}`;
+      }
+  }
+}
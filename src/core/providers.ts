@@ -0,0 +1,54 @@
+import type { LanguageModel } from "ai";
+import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+
+export type VisionProviderId = "openrouter" | "openai-compatible" | "mock";
+
+export const VISION_PROVIDERS: VisionProviderId[] = ["openrouter", "openai-compatible", "mock"];
+
+export interface VisionProviderConfig {
+  provider: VisionProviderId;
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export const DEFAULT_MODELS: Record<VisionProviderId, string> = {
+  openrouter: "google/gemini-2.5-flash-lite",
+  "openai-compatible": "llava",
+  mock: "mock-vision",
+};
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp and LM Studio use :8080/v1 and :1234/v1
+export const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+
+export function isVisionProviderId(value: unknown): value is VisionProviderId {
+  return VISION_PROVIDERS.includes(value as VisionProviderId);
+}
+
+/** The mock provider is loaded on demand, so ai/test stays out of normal runs. */
+export async function createVisionModel(config: VisionProviderConfig): Promise<LanguageModel> {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+
+  switch (config.provider) {
+    case "openrouter": {
+      if (!config.apiKey) {
+        throw new Error("No OpenRouter API key configured. Set it in Settings.");
+      }
+      return createOpenRouter({ apiKey: config.apiKey })(model);
+    }
+    case "openai-compatible": {
+      const provider = createOpenAICompatible({
+        name: "openai-compatible",
+        baseURL: config.baseUrl || DEFAULT_BASE_URL,
+        apiKey: config.apiKey || undefined,
+        supportsStructuredOutputs: true,
+      });
+      return provider(model);
+    }
+    case "mock": {
+      const { createMockVisionModel } = await import("./mock-model");
+      return createMockVisionModel(model);
+    }
+  }
+}
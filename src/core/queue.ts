@@ -0,0 +1,58 @@
+export type Task = () => Promise<unknown>;
+
+export interface TaskQueue {
+  /** Resolves once the task is accepted; waits while the queue is full. */
+  push(task: Task): Promise<void>;
+  /** Resolves when every accepted task has finished. */
+  drain(): Promise<void>;
+}
+
+/**
+ * Runs up to `concurrency` tasks at once and holds at most `capacity` more in
+ * line. Producers that outrun the workers are made to wait in push(), which
+ * keeps memory bounded when a slow model falls behind the browser.
+ */
+export function createTaskQueue(concurrency: number, capacity: number = concurrency * 2): TaskQueue {
+  const pending: Task[] = [];
+  let running = 0;
+  let spaceWaiters: (() => void)[] = [];
+  let idleWaiters: (() => void)[] = [];
+
+  const wake = (waiters: (() => void)[]) => waiters.forEach((resolve) => resolve());
+
+  const next = () => {
+    while (running < concurrency && pending.length > 0) {
+      const task = pending.shift()!;
+      running++;
+      const waiting = spaceWaiters;
+      spaceWaiters = [];
+      wake(waiting);
+
+      task()
+        .catch((err) => console.error("Queued task failed:", err))
+        .finally(() => {
+          running--;
+          next();
+          if (running === 0 && pending.length === 0) {
+            const idle = idleWaiters;
+            idleWaiters = [];
+            wake(idle);
+          }
+        });
+    }
+  };
+
+  return {
+    async push(task: Task) {
+      while (pending.length >= capacity) {
+        await new Promise<void>((resolve) => spaceWaiters.push(resolve));
+      }
+      pending.push(task);
+      next();
+    },
+    drain() {
+      if (running === 0 && pending.length === 0) return Promise.resolve();
+      return new Promise<void>((resolve) => idleWaiters.push(resolve));
+    },
+  };
+}
@@ -0,0 +1,163 @@
+import { existsSync } from "fs";
+import { mkdir, rename, rmdir, stat, unlink } from "fs/promises";
+import { dirname, join, relative } from "path";
+import { getReviewDecisions, listEvents, listRejectedKeys, removeEvents, type LibraryEvent } from "./library";
+import { getArchiveDir, getEventsDir, getSidecarPath } from "./utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Rules applied to the library after each scan. Zero or missing turns a rule off. */
+export interface RetentionPolicy {
+  /** Days after a rejection before the event's files are deleted. */
+  deleteRejectedAfterDays?: number;
+  /** Days after capture before an event moves to the archive folder. */
+  archiveAfterDays?: number;
+  /** Largest the events folder may grow; the oldest events are deleted first. */
+  maxLibraryMB?: number;
+}
+
+export type RetentionAction = "delete-rejected" | "archive" | "evict";
+
+export interface RetentionItem {
+  key: string;
+  username: string;
+  capturedAt: string;
+  action: RetentionAction;
+  bytes: number;
+}
+
+export interface RetentionPlan {
+  items: RetentionItem[];
+  /** Size of the library's files before the plan runs. */
+  libraryBytes: number;
+  bytesFreed: number;
+}
+
+// The screenshot, its sidecar and the video, when there is one
+function eventFiles(event: LibraryEvent): string[] {
+  const files = [event.path, getSidecarPath(event.path)];
+  if (event.story?.videoFile) files.push(join(dirname(event.path), event.story.videoFile));
+  return files.filter((file) => existsSync(file));
+}
+
+async function eventBytes(event: LibraryEvent): Promise<number> {
+  const sizes = await Promise.all(eventFiles(event).map((file) => stat(file).then((s) => s.size, () => 0)));
+  return sizes.reduce((sum, size) => sum + size, 0);
+}
+
+/**
+ * Works out what the policy would remove, without touching anything.
+ * Approved events waiting to be exported are never removed.
+ */
+export async function planRetention(policy: RetentionPolicy, now: Date = new Date()): Promise<RetentionPlan> {
+  const events = listEvents();
+  const pendingExport = new Set(
+    [...getReviewDecisions()].filter(([, decision]) => decision === "approved").map(([key]) => key)
+  );
+  const sizes = new Map<string, number>();
+  for (const event of events) sizes.set(event.key, await eventBytes(event));
+  const libraryBytes = [...sizes.values()].reduce((sum, size) => sum + size, 0);
+
+  const items: RetentionItem[] = [];
+  const planned = new Set<string>();
+  const add = (event: LibraryEvent, action: RetentionAction) => {
+    planned.add(event.key);
+    items.push({
+      key: event.key,
+      username: event.username,
+      capturedAt: event.capturedAt,
+      action,
+      bytes: sizes.get(event.key) ?? 0,
+    });
+  };
+
+  if (policy.deleteRejectedAfterDays) {
+    const cutoff = new Date(now.getTime() - policy.deleteRejectedAfterDays * DAY_MS).toISOString();
+    const rejected = new Set(listRejectedKeys(cutoff));
+    for (const event of events) {
+      if (rejected.has(event.key) && !pendingExport.has(event.key)) add(event, "delete-rejected");
+    }
+  }
+
+  if (policy.archiveAfterDays) {
+    const cutoff = now.getTime() - policy.archiveAfterDays * DAY_MS;
+    for (const event of events) {
+      if (planned.has(event.key) || pendingExport.has(event.key)) continue;
+      if (Date.parse(event.capturedAt) < cutoff) add(event, "archive");
+    }
+  }
+
+  // listEvents is oldest first, which is the eviction order
+  if (policy.maxLibraryMB) {
+    const maxBytes = policy.maxLibraryMB * 1024 * 1024;
+    let remaining = libraryBytes - items.reduce((sum, item) => sum + item.bytes, 0);
+    for (const event of events) {
+      if (remaining <= maxBytes) break;
+      if (planned.has(event.key) || pendingExport.has(event.key)) continue;
+      add(event, "evict");
+      remaining -= sizes.get(event.key) ?? 0;
+    }
+  }
+
+  return { items, libraryBytes, bytesFreed: items.reduce((sum, item) => sum + item.bytes, 0) };
+}
+
+/**
+ * Carries out the policy: files are deleted or archived and the events leave the library.
+ * Each event leaves as soon as its files are handled, so a failure part way through
+ * only skips that event; it is tried again on the next run. Returns what was done.
+ */
+export async function applyRetention(policy: RetentionPolicy): Promise<RetentionPlan> {
+  const plan = await planRetention(policy);
+  if (plan.items.length === 0) return plan;
+
+  const eventsDir = getEventsDir();
+  const archiveDir = getArchiveDir();
+  const byKey = new Map(listEvents().map((event) => [event.key, event]));
+  const done: RetentionItem[] = [];
+  const folders = new Set<string>();
+
+  for (const item of plan.items) {
+    const event = byKey.get(item.key);
+    if (!event) continue;
+    try {
+      for (const file of eventFiles(event)) {
+        if (item.action === "archive") {
+          const target = join(archiveDir, relative(eventsDir, file));
+          await mkdir(dirname(target), { recursive: true });
+          await rename(file, target);
+        } else {
+          await unlink(file);
+        }
+      }
+    } catch (err) {
+      console.error(`Could not ${item.action} ${item.key}:`, err);
+      continue;
+    }
+    removeEvents([item.key]);
+    done.push(item);
+    folders.add(dirname(event.path));
+  }
+
+  // Day folders left empty; rmdir refuses any that still hold files
+  for (const folder of folders) {
+    await rmdir(folder).catch(() => {});
+  }
+  return { ...plan, items: done, bytesFreed: done.reduce((sum, item) => sum + item.bytes, 0) };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+export function formatRetentionPlan(plan: RetentionPlan): string {
+  if (plan.items.length === 0) return `Nothing to remove. The library uses ${formatBytes(plan.libraryBytes)}.`;
+  const count = (action: RetentionAction) => plan.items.filter((item) => item.action === action).length;
+  const parts = [
+    count("delete-rejected") > 0 ? `delete ${count("delete-rejected")} rejected` : "",
+    count("archive") > 0 ? `archive ${count("archive")} old` : "",
+    count("evict") > 0 ? `delete ${count("evict")} oldest to stay under the size limit` : "",
+  ].filter(Boolean);
+  return `Would ${parts.join(", ")}, freeing ${formatBytes(plan.bytesFreed)} of ${formatBytes(plan.libraryBytes)}.`;
+}
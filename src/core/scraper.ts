@@ -1,17 +1,38 @@
-import { chromium, type Page } from "playwright";
+import { chromium, type Browser, type BrowserContext, type Page } from "playwright";
 import { existsSync } from "fs";
-import { unlink, rename } from "fs/promises";
+import { basename } from "path";
+import { writeFile } from "fs/promises";
 import {
   getSessionPath,
   ensureDayDir,
   buildScreenshotPath,
-  getTempScreenshotPath,
+  toZonedISOString,
+  saveEventSidecar,
 } from "./utils";
-import { isEventPromotion } from "./vision";
+import { extractEvent, type StoryExtraction } from "./vision";
+import { computeImageHash } from "./imagehash";
+import { findCachedExtraction, cacheExtraction } from "./cache";
 import { getPlaywrightBrowserPath } from "./playwright-config";
+import { detectSessionProblem, SESSION_PROBLEM_MESSAGES, type SessionProblem } from "./session";
+import { formatProgressEvent, type ProgressListener, type DoneReason } from "./progress";
+import { createTaskQueue } from "./queue";
+import { watchStoryMedia, captureStory, getStoryId, type CapturedStory } from "./media";
+import { getHighlightId, isFrameProcessed, markFrameProcessed } from "./highlights";
+import { getSeenStory, markStorySeen } from "./seen";
+import { createFailureRecorder, type FailureRecorder, type FailureReason } from "./debug";
+import { recordEvent, recordScanStart, recordScanEnd, type ScanTrigger } from "./library";
+import { createBudgetTracker, type BudgetLimit, type ScanBudget } from "./budget";
+import { loadSelectorRegistry, findSelector, findAllSelector, takeSelectorMisses, writeSelectorReport } from "./selectors";
 
+export const INSTAGRAM_BASE_URL = "https://www.instagram.com";
 const STORY_DELAY_MS = 1500;
 const MAX_STUCK = 3;
+// Debug mode keeps artifacts once the scan has been stuck this many times
+const REPEATED_STUCK = 2;
+// Upper bound for a highlight whose frame list never arrived
+const MAX_HIGHLIGHT_FRAMES = 100;
+const REEL_WAIT_MS = 2000;
+export const DEFAULT_CLASSIFY_CONCURRENCY = 3;
 
 async function getUsername(page: Page): Promise<string> {
   // Primary: extract from URL — stories URLs are /stories/USERNAME/STORY_ID/
@@ -22,10 +43,8 @@ async function getUsername(page: Page): Promise<string> {
 
   // Fallback: DOM selectors
   try {
-    const usernameLink = page
-      .locator('section[role="presentation"] a[href^="/"]')
-      .first();
-    const href = await usernameLink.getAttribute("href", { timeout: 2000 });
+    const usernameLink = (await findSelector(page, "storyAuthorLink"))?.first();
+    const href = await usernameLink?.getAttribute("href", { timeout: 2000 });
     if (href) {
       const username = href.replace(/\//g, "");
       if (username && username.length > 0) {
@@ -33,17 +52,16 @@ async function getUsername(page: Page): Promise<string> {
       }
     }
   } catch {
-    try {
-      const usernameSpan = page
-        .locator('section[role="presentation"] header span')
-        .first();
-      const text = await usernameSpan.textContent({ timeout: 1000 });
-      if (text && text.length > 0 && text.length < 50) {
-        return text.trim();
-      }
-    } catch {
-      // Fallback
+    // Fall through to the header text
+  }
+  try {
+    const usernameSpan = (await findSelector(page, "storyAuthorName"))?.first();
+    const text = await usernameSpan?.textContent({ timeout: 1000 });
+    if (text && text.length > 0 && text.length < 50) {
+      return text.trim();
     }
+  } catch {
+    // Fallback
   }
   return "unknown_" + Date.now();
 }
@@ -76,81 +94,389 @@ async function skipToNextUser(page: Page): Promise<boolean> {
   return false;
 }
 
+// Pressing and holding on a story stops the viewer from moving on, as it does
+// for a person; playing videos are paused too, and marked to be picked up again
+async function holdViewer(page: Page): Promise<void> {
+  try {
+    const viewportSize = page.viewportSize();
+    if (viewportSize) {
+      await page.mouse.move(viewportSize.width * 0.5, viewportSize.height * 0.5);
+      await page.mouse.down();
+    }
+    await page.evaluate(() =>
+      document.querySelectorAll("video").forEach((video) => {
+        if (video.paused) return;
+        video.pause();
+        video.dataset.heldByScan = "true";
+      })
+    );
+  } catch (e) {
+    console.log("Could not hold the viewer:", e);
+  }
+}
+
+async function releaseViewer(page: Page): Promise<void> {
+  try {
+    await page.evaluate(() =>
+      document.querySelectorAll<HTMLVideoElement>("video[data-held-by-scan]").forEach((video) => {
+        delete video.dataset.heldByScan;
+        video.play()?.catch(() => {});
+      })
+    );
+    await page.mouse.up();
+  } catch (e) {
+    console.log("Could not release the viewer:", e);
+  }
+}
+
 async function isStoryView(page: Page): Promise<boolean> {
   return page.url().includes("/stories/");
 }
 
+// Opening someone's stories by URL can land on a "View story" interstitial
+async function confirmViewStory(page: Page): Promise<void> {
+  const viewButton = await findSelector(page, "viewStoryButton");
+  if (viewButton) {
+    await viewButton.first().click().catch(() => {});
+    await page.waitForTimeout(1000);
+  }
+}
+
+export type ScanErrorCode = "no-session" | SessionProblem | "scrape-failed";
+
 export interface ScanResult {
   storyCount: number;
   eventCount: number;
+  cacheHits: number;
+  /** Stories skipped because an earlier scan already processed them. */
+  alreadySeen: number;
+  /** Written when a required selector matched nothing; see selectors.ts. */
+  diagnosticReport?: string;
+  /** Debug mode only: folder of trace, screenshots, HTML and console log. */
+  failureDir?: string;
+  /** Set when a budget cap ended the scan rather than the end of the stories. */
+  limitReached?: BudgetLimit;
+  modelCalls?: number;
+  /** Model spend in US dollars, at the budget's estimated price per call. */
+  estimatedSpend?: number;
+  /** Stories passed over because their account is hidden. */
+  hiddenSkipped?: number;
+  /** Stories that failed to classify or save, plus the error that ended the scan, if any. */
+  errorCount?: number;
+  /** This scan's entry in the library's scan history. */
+  scanId?: number;
+  stopped?: boolean;
   error?: string;
+  errorCode?: ScanErrorCode;
+}
+
+export interface PauseControl {
+  readonly isPaused: boolean;
+  pause(): void;
+  resume(): void;
+  waitWhilePaused(signal?: AbortSignal): Promise<void>;
+}
+
+export function createPauseControl(): PauseControl {
+  let paused = false;
+  let waiters: (() => void)[] = [];
+
+  const release = () => {
+    const pending = waiters;
+    waiters = [];
+    pending.forEach((wake) => wake());
+  };
+
+  return {
+    get isPaused() {
+      return paused;
+    },
+    pause() {
+      paused = true;
+    },
+    resume() {
+      paused = false;
+      release();
+    },
+    waitWhilePaused(signal?: AbortSignal) {
+      if (!paused || signal?.aborted) return Promise.resolve();
+      return new Promise<void>((resolve) => {
+        // Stopping a paused scan must not leave it parked forever; whichever
+        // of resume or abort comes first wakes it and drops the other hook
+        const wake = () => {
+          signal?.removeEventListener("abort", wake);
+          waiters = waiters.filter((waiter) => waiter !== wake);
+          resolve();
+        };
+        waiters.push(wake);
+        signal?.addEventListener("abort", wake, { once: true });
+      });
+    },
+  };
+}
+
+export interface ScanOptions {
+  signal?: AbortSignal;
+  pauseControl?: PauseControl;
+  /** How many stories may be with the model at once. */
+  concurrency?: number;
+  /** Site to scan; the offline fixture server stands in for Instagram here. */
+  baseUrl?: string;
+  /** Replaces the vision model, e.g. with a stub for fixture runs. */
+  classify?: (image: Buffer) => Promise<StoryExtraction>;
+  /**
+   * Watchlist mode: open each of these accounts' stories directly instead of
+   * walking the whole feed tray.
+   */
+  accounts?: string[];
+  /**
+   * With `accounts`, also walk each account's story highlights. Frames
+   * processed on an earlier run are skipped.
+   */
+  highlights?: boolean;
+  /**
+   * Records a Playwright trace, recent screenshots and the console log, and
+   * keeps them when the scan fails, gets stuck repeatedly or finds no stories.
+   */
+  debug?: boolean;
+  /**
+   * Caps on stories, minutes and estimated model spend, per scan and per day.
+   * Hitting one finishes the stories already captured and ends the scan.
+   */
+  budget?: ScanBudget;
+  /** Recorded in the scan history. */
+  trigger?: ScanTrigger;
 }
 
 export async function runScraper(
-  onProgress?: (msg: string) => void,
-  hiddenAccounts: string[] = []
+  onProgress?: ProgressListener,
+  hiddenAccounts: string[] = [],
+  {
+    signal,
+    pauseControl,
+    concurrency = DEFAULT_CLASSIFY_CONCURRENCY,
+    baseUrl = INSTAGRAM_BASE_URL,
+    classify = extractEvent,
+    accounts,
+    highlights = false,
+    debug = false,
+    budget,
+    trigger,
+  }: ScanOptions = {}
 ): Promise<ScanResult> {
   const sessionPath = getSessionPath();
-  const tempScreenshot = getTempScreenshotPath();
-  const log = onProgress || console.log;
+  const emit: ProgressListener = onProgress || ((event) => console.log(formatProgressEvent(event)));
+
+  let scanPage: Page | null = null;
+  let recorder: FailureRecorder | null = null;
+  let stuckEvents = 0;
+  let hiddenSkipped = 0;
+  let errorCount = 0;
+  const tracker = createBudgetTracker(budget);
+  let limitReached: BudgetLimit | undefined;
+  const scanId = recordScanStart(accounts ? "watchlist" : "feed", trigger);
+
+  // Selectors that matched nothing during the scan go into a report alongside
+  // the result, and debug captures are kept or dropped
+  const finish = async (reason: DoneReason, result: ScanResult): Promise<ScanResult> => {
+    const { modelCalls, spend } = tracker.usage();
+    result = {
+      ...result,
+      modelCalls,
+      estimatedSpend: spend,
+      hiddenSkipped,
+      errorCount: errorCount + (result.error ? 1 : 0),
+      scanId,
+    };
+
+    const misses = scanPage ? takeSelectorMisses(scanPage) : [];
+    if (misses.length > 0) {
+      for (const miss of misses) emit({ type: "selector-missing", key: miss.key, url: miss.url });
+      const diagnosticReport = await writeSelectorReport(misses).catch((err) => {
+        console.error("Could not write selector report:", err);
+        return undefined;
+      });
+      result = { ...result, diagnosticReport };
+    }
+
+    if (recorder) {
+      const failure: FailureReason | null =
+        reason === "failed"
+          ? "error"
+          : stuckEvents >= REPEATED_STUCK
+            ? "stuck"
+            : result.storyCount === 0 && result.alreadySeen === 0 && !result.stopped && !result.limitReached
+              ? "no-stories"
+              : null;
+      if (failure) {
+        const failureDir = await recorder.save(failure, { doneReason: reason, stuckEvents, result }).catch((err) => {
+          console.error("Could not save failure artifacts:", err);
+          return undefined;
+        });
+        result = { ...result, failureDir };
+      } else {
+        await recorder.discard();
+      }
+    }
+
+    recordScanEnd(scanId, reason, result);
+    emit({ type: "done", reason, result });
+    return result;
+  };
+
+  // Checked between stories, so a stop never interrupts a save half-way.
+  // Reaching a budget cap stops the scan the same way. A pause holds the
+  // viewer where it is, and its time doesn't count towards the budget.
+  const shouldStop = async (): Promise<boolean> => {
+    if (pauseControl?.isPaused && !signal?.aborted) {
+      emit({ type: "paused" });
+      tracker.pause();
+      if (scanPage) await holdViewer(scanPage);
+      await pauseControl.waitWhilePaused(signal);
+      if (scanPage) await releaseViewer(scanPage);
+      tracker.resume();
+      if (!signal?.aborted) emit({ type: "resumed" });
+    }
+    if (signal?.aborted) return true;
+    limitReached = tracker.check() ?? undefined;
+    return limitReached !== undefined;
+  };
 
   if (!existsSync(sessionPath)) {
-    return {
+    return finish("failed", {
       storyCount: 0,
       eventCount: 0,
+      cacheHits: 0,
+      alreadySeen: 0,
       error: "No session found. Please log in to Instagram first.",
-    };
+      errorCode: "no-session",
+    });
   }
 
-  log("Starting Instagram story scraper...");
-
-  const browser = await chromium.launch({
-    headless: true,
-    executablePath: getPlaywrightBrowserPath(),
-  });
-  const context = await browser.newContext({
-    storageState: sessionPath,
-    viewport: { width: 1280, height: 720 },
-    userAgent:
-      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-  });
+  // A daily cap already used up by earlier scans ends this one before it starts
+  const exhausted = tracker.check();
+  if (exhausted) {
+    return finish("limit-reached", { storyCount: 0, eventCount: 0, cacheHits: 0, alreadySeen: 0, limitReached: exhausted });
+  }
 
-  const page = await context.newPage();
-  let storyCount = 0;
-  let eventCount = 0;
+  emit({ type: "navigating", stage: "launching" });
+  loadSelectorRegistry();
 
+  // A browser that won't start ends the scan like any other failure, so its
+  // history record is finished too
+  let browser: Browser | undefined;
+  let context: BrowserContext;
+  let page: Page;
   try {
-    log("Navigating to Instagram...");
-    await page.goto("https://www.instagram.com/", {
-      waitUntil: "domcontentloaded",
+    browser = await chromium.launch({
+      headless: true,
+      executablePath: getPlaywrightBrowserPath(),
     });
-    await page.waitForTimeout(2000);
-
-    log("Looking for stories...");
-    const storyButton = page.locator('div[role="button"] canvas').first();
+    context = await browser.newContext({
+      storageState: sessionPath,
+      viewport: { width: 1280, height: 720 },
+      userAgent:
+        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+    });
+    page = await context.newPage();
+  } catch (err) {
+    await browser?.close().catch(() => {});
+    emit({ type: "error", message: `${err}` });
+    return finish("failed", {
+      storyCount: 0,
+      eventCount: 0,
+      cacheHits: 0,
+      alreadySeen: 0,
+      error: `Could not start the browser: ${err}`,
+      errorCode: "scrape-failed",
+    });
+  }
 
-    if ((await storyButton.count()) === 0) {
-      log("No stories found in your feed.");
-      await browser.close();
-      return { storyCount: 0, eventCount: 0 };
-    }
+  scanPage = page;
+  if (debug) recorder = await createFailureRecorder(page, context);
+  const mediaIndex = watchStoryMedia(page);
+  let storyCount = 0;
+  let eventCount = 0;
+  let cacheHits = 0;
+  let alreadySeen = 0;
+  let doneReason: DoneReason = "exited-viewer";
+  const classifyQueue = createTaskQueue(Math.max(1, concurrency));
 
-    await storyButton.click();
-    await page.waitForTimeout(2000);
+  // Resolves with the verdict once the story has been classified (and saved if
+  // it's an event), or null if that failed
+  const classifyStory = async (
+    index: number,
+    username: string,
+    capture: CapturedStory,
+    savePath: string,
+    capturedAt: Date,
+    highlightId?: string
+  ): Promise<{ isEvent: boolean; savedPath?: string } | null> => {
+    const { image, video, contactSheet, metadata } = capture;
+    try {
+      const hash = await computeImageHash(image);
+      let extraction = findCachedExtraction(hash);
+      const cached = extraction !== null;
+      if (extraction) {
+        cacheHits++;
+      } else {
+        tracker.countModelCall();
+        extraction = await classify(contactSheet ?? image);
+        cacheExtraction(hash, extraction);
+      }
 
-    const dayDir = await ensureDayDir();
-    log(`Saving events to: ${dayDir}`);
+      if (extraction.isEvent) {
+        await writeFile(savePath, image);
+        let videoFile: string | undefined;
+        if (video) {
+          const videoPath = savePath.replace(/\.png$/, ".mp4");
+          await writeFile(videoPath, video);
+          videoFile = basename(videoPath);
+        }
+        // A link sticker is usually the ticket link the flyer itself leaves out
+        const event =
+          extraction.event && !extraction.event.ticketUrl && metadata.linkUrls.length > 0
+            ? { ...extraction.event, ticketUrl: metadata.linkUrls[0]! }
+            : extraction.event;
+        const sidecar = {
+          imageHash: hash,
+          event,
+          capturedAt: toZonedISOString(capturedAt),
+          story: { ...metadata, videoFile, highlightId },
+        };
+        await saveEventSidecar(savePath, sidecar);
+        recordEvent(savePath, username, sidecar, scanId, sidecar.capturedAt);
+        eventCount++;
+        emit({ type: "classified", index, username, isEvent: true, cached, savedPath: savePath });
+        return { isEvent: true, savedPath: savePath };
+      }
+      emit({ type: "classified", index, username, isEvent: false, cached });
+      return { isEvent: false };
+    } catch (err) {
+      errorCount++;
+      emit({ type: "error", message: `${err}`, index });
+      return null;
+    }
+  };
 
+  // Walks the open story viewer until it leaves. Given an account, it stops as
+  // soon as the viewer moves on to someone else's stories.
+  const walkViewer = async (dayDir: string, account?: string): Promise<DoneReason> => {
     let lastUrl = "";
     let stuckCount = 0;
 
     while (await isStoryView(page)) {
+      if (await shouldStop()) return "stopped";
+      await recorder?.snapshot();
+
       const currentUrl = page.url();
 
       if (currentUrl === lastUrl) {
         stuckCount++;
         if (stuckCount >= MAX_STUCK) {
-          log("Stuck on same content, skipping to next user...");
+          stuckEvents++;
+          emit({ type: "stuck", url: currentUrl });
+          if (account) return "end-of-stories";
           await skipToNextUser(page);
           stuckCount = 0;
           lastUrl = "";
@@ -162,91 +488,225 @@ export async function runScraper(
         lastUrl = currentUrl;
       }
 
-      storyCount++;
       const username = await getUsername(page);
-      log(`Story ${storyCount}: @${username}`);
+      if (account && username.toLowerCase() !== account.toLowerCase()) return "end-of-stories";
 
-      if (hiddenAccounts.includes(username)) {
-        log(`  -> Skipped (account hidden)`);
-        await page.waitForTimeout(STORY_DELAY_MS);
-        const advanced = await nextStory(page);
-        if (!advanced) {
-          log("Reached end of stories.");
-          break;
-        }
+      // Already handled by an earlier scan; step past without the usual dwell
+      const storyId = getStoryId(currentUrl);
+      if (storyId && getSeenStory(storyId)) {
+        alreadySeen++;
+        emit({ type: "skipped-seen", username });
+        if (!(await nextStory(page))) return "end-of-stories";
         await page.waitForTimeout(500);
-        if (!(await isStoryView(page))) {
-          log("Exited story view.");
-          break;
-        }
         continue;
       }
 
-      const viewportSize = page.viewportSize();
-      if (viewportSize) {
-        const storyWidth = 405;
-        const storyX = (viewportSize.width - storyWidth) / 2;
-        await page.screenshot({
-          path: tempScreenshot,
-          clip: {
-            x: storyX,
-            y: 0,
-            width: storyWidth,
-            height: viewportSize.height,
-          },
-        });
+      storyCount++;
+      tracker.countStory();
+      emit({ type: "story-started", index: storyCount, username });
+
+      if (hiddenAccounts.includes(username)) {
+        hiddenSkipped++;
+        emit({ type: "skipped-hidden", index: storyCount, username });
       } else {
-        await page.screenshot({
-          path: tempScreenshot,
-          clip: { x: 437, y: 0, width: 405, height: 720 },
-        });
-      }
+        const capturedAt = new Date();
+        const capture = await captureStory(page, mediaIndex, storyId);
 
-      try {
-        const isEvent = await isEventPromotion(tempScreenshot);
-
-        if (isEvent) {
-          const savePath = buildScreenshotPath(username, dayDir);
-          await rename(tempScreenshot, savePath);
-          eventCount++;
-          log(`  -> EVENT DETECTED! Saved`);
-        } else {
-          await unlink(tempScreenshot).catch(() => {});
-          log(`  -> Not an event, discarded`);
-        }
-      } catch (err) {
-        log(`  -> Error checking story: ${err}`);
-        await unlink(tempScreenshot).catch(() => {});
+        // Named at capture time so the filename reflects when the story was seen
+        const savePath = buildScreenshotPath(username, dayDir, capturedAt);
+        const index = storyCount;
+        await classifyQueue.push(async () => {
+          const verdict = await classifyStory(index, username, capture, savePath, capturedAt);
+          if (verdict && storyId) markStorySeen(storyId, { username, ...verdict });
+        });
       }
 
       await page.waitForTimeout(STORY_DELAY_MS);
 
       const advanced = await nextStory(page);
-      if (!advanced) {
-        log("Reached end of stories.");
-        break;
+      if (!advanced) return "end-of-stories";
+
+      await page.waitForTimeout(500);
+    }
+
+    return "exited-viewer";
+  };
+
+  const waitForReel = async (reelId: string): Promise<string[] | undefined> => {
+    const deadline = Date.now() + REEL_WAIT_MS;
+    let frames = mediaIndex.getReel(reelId);
+    while (!frames && Date.now() < deadline) {
+      await page.waitForTimeout(100);
+      frames = mediaIndex.getReel(reelId);
+    }
+    return frames;
+  };
+
+  // Highlight URLs stay put while the viewer steps through frames, so frames
+  // are told apart by their position in the reel the payload listed.
+  // Resolves true if the scan was stopped.
+  const walkHighlight = async (account: string, highlightId: string, dayDir: string): Promise<boolean> => {
+    const frameIds = await waitForReel(highlightId);
+    if (frameIds?.every((id) => isFrameProcessed(id))) return false;
+
+    const frameCount = frameIds?.length ?? MAX_HIGHLIGHT_FRAMES;
+    for (let position = 0; position < frameCount; position++) {
+      if (getHighlightId(page.url()) !== highlightId) break;
+      if (await shouldStop()) return true;
+      await recorder?.snapshot();
+
+      const frameId = frameIds?.[position] ?? `${highlightId}_${position}`;
+      if (isFrameProcessed(frameId)) {
+        alreadySeen++;
+        emit({ type: "skipped-seen", username: account });
+      } else {
+        storyCount++;
+        tracker.countStory();
+        const index = storyCount;
+        emit({ type: "story-started", index, username: account });
+
+        const capturedAt = new Date();
+        const capture = await captureStory(page, mediaIndex, frameIds?.[position] ?? null);
+        const savePath = buildScreenshotPath(account, dayDir, capturedAt);
+        await classifyQueue.push(async () => {
+          if (await classifyStory(index, account, capture, savePath, capturedAt, highlightId)) {
+            markFrameProcessed(frameId, account, highlightId);
+          }
+        });
+        await page.waitForTimeout(STORY_DELAY_MS);
       }
 
+      if (!(await nextStory(page))) break;
       await page.waitForTimeout(500);
+    }
+    return false;
+  };
+
+  // Resolves true if the scan was stopped
+  const scanHighlights = async (account: string, dayDir: string): Promise<boolean> => {
+    if (hiddenAccounts.includes(account)) return false;
 
+    emit({ type: "navigating", stage: "highlights", username: account });
+    await page.goto(`${baseUrl}/${encodeURIComponent(account)}/`, {
+      waitUntil: "domcontentloaded",
+    });
+    await page.waitForTimeout(2000);
+
+    const links = await findAllSelector(page, "highlightLink");
+    const hrefs = await Promise.all(links.map((link) => link.getAttribute("href").catch(() => null)));
+    const highlightIds = Array.from(new Set(hrefs.map((href) => (href ? getHighlightId(href) : null))));
+
+    for (const highlightId of highlightIds) {
+      if (!highlightId) continue;
+      if (await shouldStop()) return true;
+
+      await page.goto(`${baseUrl}/stories/highlights/${highlightId}/`, {
+        waitUntil: "domcontentloaded",
+      });
+      await page.waitForTimeout(2000);
+      await confirmViewStory(page);
+      if (getHighlightId(page.url()) !== highlightId) continue;
+
+      if (await walkHighlight(account, highlightId, dayDir)) return true;
+    }
+    return false;
+  };
+
+  const scanAccounts = async (accounts: string[], dayDir: string): Promise<DoneReason> => {
+    emit({ type: "navigating", stage: "viewer", saveDir: dayDir });
+
+    for (const account of accounts) {
+      if (await shouldStop()) return "stopped";
+
+      emit({ type: "navigating", stage: "account", username: account });
+      await page.goto(`${baseUrl}/stories/${encodeURIComponent(account)}/`, {
+        waitUntil: "domcontentloaded",
+      });
+      await page.waitForTimeout(2000);
+      await confirmViewStory(page);
+
+      // Accounts without a live story redirect to their profile
       if (!(await isStoryView(page))) {
-        log("Exited story view.");
-        break;
+        emit({ type: "no-active-stories", username: account });
+      } else if ((await walkViewer(dayDir, account)) === "stopped") {
+        return "stopped";
+      }
+
+      if (highlights && (await scanHighlights(account, dayDir))) return "stopped";
+    }
+
+    return "end-of-stories";
+  };
+
+  try {
+    emit({ type: "navigating", stage: "feed" });
+    await page.goto(`${baseUrl}/`, {
+      waitUntil: "domcontentloaded",
+    });
+    await page.waitForTimeout(2000);
+    await recorder?.snapshot();
+
+    const sessionProblem = await detectSessionProblem(page, context, baseUrl);
+    if (sessionProblem) {
+      return await finish("failed", {
+        storyCount: 0,
+        eventCount: 0,
+        cacheHits: 0,
+        alreadySeen: 0,
+        error: SESSION_PROBLEM_MESSAGES[sessionProblem],
+        errorCode: sessionProblem,
+      });
+    }
+
+    if (accounts) {
+      const dayDir = await ensureDayDir();
+      doneReason = await scanAccounts(accounts, dayDir);
+      if (limitReached) doneReason = "limit-reached";
+      if (storyCount === 0 && doneReason !== "stopped" && doneReason !== "limit-reached") doneReason = "no-stories";
+    } else {
+      emit({ type: "navigating", stage: "story-tray" });
+      const storyButton = await findSelector(page, "storyTrayItem");
+
+      if (!storyButton) {
+        return await finish("no-stories", { storyCount: 0, eventCount: 0, cacheHits: 0, alreadySeen: 0 });
       }
+
+      await storyButton.first().click();
+      await page.waitForTimeout(2000);
+
+      const dayDir = await ensureDayDir();
+      emit({ type: "navigating", stage: "viewer", saveDir: dayDir });
+      doneReason = await walkViewer(dayDir);
+      if (limitReached) doneReason = "limit-reached";
     }
 
-    log(`Done! Processed ${storyCount} stories, found ${eventCount} events.`);
+    // Stories already captured still get classified and saved, even when stopping
+    await classifyQueue.drain();
+
+    return await finish(doneReason, {
+      storyCount,
+      eventCount,
+      cacheHits,
+      alreadySeen,
+      stopped: doneReason === "stopped",
+      limitReached,
+    });
   } catch (err) {
     console.error("Error during scraping:", err);
-    return {
+    await classifyQueue.drain();
+    emit({ type: "error", message: `${err}` });
+    return await finish("failed", {
       storyCount,
       eventCount,
+      cacheHits,
+      alreadySeen,
+      stopped: doneReason === "stopped",
+      limitReached,
       error: `Scraping error: ${err}`,
-    };
+      errorCode: "scrape-failed",
+    });
   } finally {
-    await unlink(tempScreenshot).catch(() => {});
+    // Every finish above is awaited first: debug captures need the browser open
     await browser.close();
   }
-
-  return { storyCount, eventCount };
 }
@@ -0,0 +1,40 @@
+import { defineStore } from "./storage";
+import { getProfileDir } from "./utils";
+
+// Stories disappear after 24 hours, and so can their record
+const SEEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface SeenStory {
+  username: string;
+  isEvent: boolean;
+  savedPath?: string;
+  seenAt: number;
+}
+
+interface SeenSchema {
+  stories: Record<string, SeenStory>;
+}
+
+// Per profile, like the library: a story one profile saw may never have
+// reached another's events
+const seenStories = defineStore<SeenSchema>("seen-stories", { stories: {} });
+const store = () => seenStories(getProfileDir());
+
+export function getSeenStory(storyId: string): SeenStory | null {
+  const seen = store().get("stories")[storyId];
+  if (!seen || seen.seenAt < Date.now() - SEEN_TTL_MS) return null;
+  return seen;
+}
+
+/**
+ * Records a story as processed. Written as each story finishes, so a scan cut
+ * short by a crash or sleep picks up where it left off.
+ */
+export function markStorySeen(storyId: string, story: Omit<SeenStory, "seenAt">): void {
+  const cutoff = Date.now() - SEEN_TTL_MS;
+  const stories = Object.fromEntries(
+    Object.entries(store().get("stories")).filter(([, seen]) => seen.seenAt >= cutoff)
+  );
+  stories[storyId] = { ...story, seenAt: Date.now() };
+  store().set("stories", stories);
+}
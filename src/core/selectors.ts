@@ -0,0 +1,209 @@
+import type { Locator, Page } from "playwright";
+import { existsSync, readFileSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import { getDiagnosticsDir, getSelectorOverridePath } from "./utils";
+
+/**
+ * Bump whenever the built-in selectors change. An override file written for an
+ * older version is ignored, since the built-ins have moved on since.
+ */
+export const SELECTOR_REGISTRY_VERSION = 1;
+
+interface SelectorEntry {
+  description: string;
+  /** Tried in order; the first that matches anything wins. */
+  selectors: string[];
+  /** Finding nothing is normal (no stickers, no highlights), so it isn't reported. */
+  optional?: boolean;
+}
+
+const BUILT_IN_SELECTORS = {
+  storyTrayItem: {
+    description: "Story bubble in the feed's story tray",
+    selectors: ['div[role="button"] canvas', '[aria-label^="Story by"]'],
+  },
+  storyAuthorLink: {
+    description: "Link to the story author's profile in the viewer header",
+    selectors: ['section[role="presentation"] header a[href^="/"]', 'section[role="presentation"] a[href^="/"]'],
+  },
+  storyAuthorName: {
+    description: "Story author's name in the viewer header",
+    selectors: ['section[role="presentation"] header span'],
+  },
+  storyMedia: {
+    description: "Image or video of the open story",
+    selectors: [
+      'section[role="presentation"] video, section[role="presentation"] img',
+      'div[role="dialog"] video, div[role="dialog"] img',
+    ],
+  },
+  viewStoryButton: {
+    description: 'Interstitial "View story" button when opening stories by URL',
+    selectors: ['role=button[name="View story"]', 'role=button[name="View stories"]'],
+    optional: true,
+  },
+  linkSticker: {
+    description: "Link sticker on the open story",
+    selectors: ['section[role="presentation"] a[href*="l.instagram.com"]'],
+    optional: true,
+  },
+  mentionSticker: {
+    description: "@mention sticker on the open story",
+    selectors: ['section[role="presentation"] a[href^="/"]'],
+    optional: true,
+  },
+  locationSticker: {
+    description: "Location sticker on the open story",
+    selectors: ['section[role="presentation"] a[href*="/explore/locations/"]'],
+    optional: true,
+  },
+  storyTimestamp: {
+    description: "Posted time in the viewer header",
+    selectors: ['section[role="presentation"] time[datetime]'],
+    optional: true,
+  },
+  highlightLink: {
+    description: "Highlight bubble on a profile page",
+    selectors: ['a[href*="/stories/highlights/"]'],
+    optional: true,
+  },
+  twoFactorInput: {
+    description: "Two-factor code field",
+    selectors: ['input[name="verificationCode"]'],
+    optional: true,
+  },
+  checkpointInput: {
+    description: "Security checkpoint code field",
+    selectors: ['input[name="security_code"]'],
+    optional: true,
+  },
+  loginForm: {
+    description: "Login form",
+    selectors: ["form#loginForm", 'input[name="password"]'],
+    optional: true,
+  },
+} satisfies Record<string, SelectorEntry>;
+
+export type SelectorKey = keyof typeof BUILT_IN_SELECTORS;
+
+/**
+ * selectors.json in the data directory, for patching selectors without a
+ * release:
+ *
+ *   { "version": 1, "selectors": { "storyTrayItem": ["li button img"] } }
+ *
+ * Override selectors are tried before the built-in ones.
+ */
+interface SelectorOverrideFile {
+  version: number;
+  selectors: Partial<Record<SelectorKey, string[]>>;
+}
+
+export interface SelectorMiss {
+  key: SelectorKey;
+  description: string;
+  tried: string[];
+  url: string;
+  title: string;
+  at: string;
+}
+
+let registry: Record<SelectorKey, SelectorEntry> = BUILT_IN_SELECTORS;
+let overrideApplied = false;
+const missesByPage = new WeakMap<Page, SelectorMiss[]>();
+
+function isSelectorKey(key: string): key is SelectorKey {
+  return key in BUILT_IN_SELECTORS;
+}
+
+/**
+ * Rebuilds the registry from the built-ins and the override file, if there is
+ * a usable one. Called at the start of every scan so edits apply without a
+ * restart.
+ */
+export function loadSelectorRegistry(): void {
+  registry = { ...BUILT_IN_SELECTORS };
+  overrideApplied = false;
+
+  const overridePath = getSelectorOverridePath();
+  if (!existsSync(overridePath)) return;
+
+  try {
+    const override = JSON.parse(readFileSync(overridePath, "utf-8")) as SelectorOverrideFile;
+    if (typeof override.version !== "number" || override.version < SELECTOR_REGISTRY_VERSION) {
+      console.warn(`Ignoring ${overridePath}: written for selector version ${override.version}, app has ${SELECTOR_REGISTRY_VERSION}`);
+      return;
+    }
+    for (const [key, selectors] of Object.entries(override.selectors ?? {})) {
+      if (!isSelectorKey(key) || !Array.isArray(selectors)) continue;
+      const extra = selectors.filter((s): s is string => typeof s === "string" && s.length > 0);
+      registry[key] = { ...registry[key], selectors: [...extra, ...BUILT_IN_SELECTORS[key].selectors] };
+    }
+    overrideApplied = true;
+  } catch (err) {
+    console.warn(`Ignoring ${overridePath}: ${err}`);
+  }
+}
+
+/**
+ * The first of the key's selectors that matches anything on the page, or null.
+ * A required selector that finds nothing is recorded against the page for the
+ * diagnostic report.
+ */
+export async function findSelector(page: Page, key: SelectorKey): Promise<Locator | null> {
+  const entry = registry[key];
+  for (const selector of entry.selectors) {
+    const locator = page.locator(selector);
+    if ((await locator.count().catch(() => 0)) > 0) return locator;
+  }
+
+  if (!entry.optional) {
+    const misses = missesByPage.get(page) ?? [];
+    const url = page.url();
+    if (!misses.some((m) => m.key === key && m.url === url)) {
+      misses.push({
+        key,
+        description: entry.description,
+        tried: entry.selectors,
+        url,
+        title: await page.title().catch(() => ""),
+        at: new Date().toISOString(),
+      });
+      missesByPage.set(page, misses);
+    }
+  }
+  return null;
+}
+
+export async function findAllSelector(page: Page, key: SelectorKey): Promise<Locator[]> {
+  const locator = await findSelector(page, key);
+  return locator ? locator.all().catch(() => []) : [];
+}
+
+export function takeSelectorMisses(page: Page): SelectorMiss[] {
+  const misses = missesByPage.get(page) ?? [];
+  missesByPage.delete(page);
+  return misses;
+}
+
+/** Writes the misses to a timestamped JSON report and returns its path. */
+export async function writeSelectorReport(misses: SelectorMiss[]): Promise<string> {
+  const dir = getDiagnosticsDir();
+  await mkdir(dir, { recursive: true });
+  const path = join(dir, `selectors-${new Date().toISOString().replace(/[:.]/g, "-")}.json`);
+  await writeFile(
+    path,
+    JSON.stringify(
+      {
+        registryVersion: SELECTOR_REGISTRY_VERSION,
+        overridePath: getSelectorOverridePath(),
+        overrideApplied,
+        misses,
+      },
+      null,
+      2
+    )
+  );
+  return path;
+}
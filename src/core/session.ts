@@ -0,0 +1,56 @@
+import type { BrowserContext, Page } from "playwright";
+import { findSelector, type SelectorKey } from "./selectors";
+
+export type SessionProblem = "logged-out" | "checkpoint" | "two-factor" | "consent";
+
+export const SESSION_PROBLEM_MESSAGES: Record<SessionProblem, string> = {
+  "logged-out": "Instagram logged you out.",
+  checkpoint: "Instagram wants to verify it's you.",
+  "two-factor": "Instagram is asking for a two-factor code.",
+  consent: "Instagram needs you to accept updated terms.",
+};
+
+export function isSessionProblem(code: unknown): code is SessionProblem {
+  return typeof code === "string" && code in SESSION_PROBLEM_MESSAGES;
+}
+
+// Order matters: two-factor lives under /accounts/login/, so it's checked first
+const URL_PATTERNS: [RegExp, SessionProblem][] = [
+  [/\/two_factor/, "two-factor"],
+  [/\/challenge\/|\/checkpoint\//, "checkpoint"],
+  [/\/consent\/|\/privacy\/checks|\/terms\/unblock/, "consent"],
+  [/\/accounts\/login/, "logged-out"],
+];
+
+const DOM_CHECKS: [SelectorKey, SessionProblem][] = [
+  ["twoFactorInput", "two-factor"],
+  ["checkpointInput", "checkpoint"],
+  ["loginForm", "logged-out"],
+];
+
+/**
+ * Works out whether the page is really a logged-in feed. Instagram answers an
+ * expired session with a redirect or an interstitial rather than an error, so
+ * without this a dead session looks like an empty story tray.
+ */
+export async function detectSessionProblem(
+  page: Page,
+  context: BrowserContext,
+  baseUrl: string
+): Promise<SessionProblem | null> {
+  const url = page.url();
+  for (const [pattern, problem] of URL_PATTERNS) {
+    if (pattern.test(url)) return problem;
+  }
+
+  for (const [key, problem] of DOM_CHECKS) {
+    if (await findSelector(page, key)) return problem;
+  }
+
+  const cookies = await context.cookies(baseUrl);
+  if (!cookies.some((c) => c.name === "sessionid" && c.value)) {
+    return "logged-out";
+  }
+
+  return null;
+}
@@ -1,10 +1,34 @@
-import { chromium } from "playwright";
+import { chromium, type BrowserContext } from "playwright";
 import { mkdir } from "fs/promises";
-import { dialog } from "electron";
+import { getEnvironment } from "./environment";
 import { getAuthDir, getSessionPath } from "./utils";
 import { getPlaywrightBrowserPath } from "./playwright-config";
 
-export async function runSetup(): Promise<void> {
+// Instagram's own web app ID, sent by instagram.com with every API request
+const IG_APP_ID = "936619743392459";
+
+async function getLoggedInUsername(context: BrowserContext): Promise<string | null> {
+  try {
+    const cookies = await context.cookies("https://www.instagram.com");
+    const userId = cookies.find((c) => c.name === "ds_user_id")?.value;
+    if (!userId) return null;
+    const response = await context.request.get(
+      `https://www.instagram.com/api/v1/users/${userId}/info/`,
+      { headers: { "x-ig-app-id": IG_APP_ID } }
+    );
+    if (!response.ok()) return null;
+    const body = await response.json();
+    return typeof body?.user?.username === "string" ? body.user.username : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves a logged-in session for the active profile. Resolves to the account's
+ * username when Instagram reveals it, so new profiles can be named after it.
+ */
+export async function runSetup(): Promise<string | null> {
   await mkdir(getAuthDir(), { recursive: true });
 
   const browser = await chromium.launch({
@@ -20,18 +44,18 @@ export async function runSetup(): Promise<void> {
   const page = await context.newPage();
   await page.goto("https://www.instagram.com/accounts/login/");
 
-  // Show dialog instead of waiting for stdin
-  await dialog.showMessageBox({
-    type: "info",
+  // A dialog in the app, a keypress in the terminal
+  await getEnvironment().prompt({
     title: "Instagram Login",
     message: "Log into Instagram in the browser window that just opened.",
-    detail: "Once you're logged in and can see your feed, click OK to save your session.",
-    buttons: ["OK"],
+    detail: "Once you're logged in and can see your feed, confirm to save your session.",
   });
 
   // Save the session
   const sessionPath = getSessionPath();
   await context.storageState({ path: sessionPath });
+  const username = await getLoggedInUsername(context);
 
   await browser.close();
+  return username;
 }
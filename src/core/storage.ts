@@ -0,0 +1,21 @@
+import Conf from "conf";
+import { getEnvironment } from "./environment";
+
+/**
+ * A JSON store in the data directory, or in `dir` for per-profile state.
+ * These are the same files electron-store writes, so the app and the CLI
+ * share settings and caches. Each directory's store is opened on first use,
+ * since the data directory isn't known until the host configures it.
+ */
+export function defineStore<T extends object = Record<string, unknown>>(name: string, defaults?: T): (dir?: string) => Conf<T> {
+  const stores = new Map<string, Conf<T>>();
+  return (dir) => {
+    const cwd = dir ?? getEnvironment().dataDir;
+    let store = stores.get(cwd);
+    if (!store) {
+      store = new Conf<T>({ cwd, configName: name, defaults });
+      stores.set(cwd, store);
+    }
+    return store;
+  };
+}
@@ -1,35 +1,144 @@
-import { mkdir, readdir } from "fs/promises";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
 import { join, basename } from "path";
-import { app } from "electron";
+import { getEnvironment } from "./environment";
+import { defineStore } from "./storage";
+import type { ExtractedEvent } from "./vision";
+import type { StoryMetadata } from "./media";
+import type { SessionProblem } from "./session";
+
+export function getDataDir(): string {
+  return getEnvironment().dataDir;
+}
+
+export const DEFAULT_PROFILE_ID = "default";
+
+// Profiles are kept in the settings file, shared by the app and the CLI
+export interface Profile {
+  id: string;
+  name: string;
+  hiddenAccounts: string[];
+  sessionProblem: SessionProblem | "";
+}
+
+let activeProfileId = DEFAULT_PROFILE_ID;
 
-function getDataDir(): string {
-  return app.getPath("userData");
+export function setActiveProfile(profileId: string): void {
+  activeProfileId = profileId;
 }
 
-export function getAuthDir(): string {
-  return join(getDataDir(), "auth");
+export function getActiveProfileId(): string {
+  return activeProfileId;
+}
+
+// The default profile keeps the original single-account layout, so existing
+// installs carry on without moving any files
+export function getProfileDir(profileId: string = activeProfileId): string {
+  if (profileId === DEFAULT_PROFILE_ID) return getDataDir();
+  return join(getDataDir(), "profiles", profileId);
+}
+
+export function getAuthDir(profileId: string = activeProfileId): string {
+  return join(getProfileDir(profileId), "auth");
 }
 
 export function getEventsDir(): string {
-  return join(getDataDir(), "events");
+  return join(getProfileDir(), "events");
+}
+
+// Events moved out of the library by the retention rules, laid out like events/
+export function getArchiveDir(): string {
+  return join(getProfileDir(), "archive");
+}
+
+export function getSessionPath(profileId: string = activeProfileId): string {
+  return join(getAuthDir(profileId), "session.json");
+}
+
+// Diagnostics, failure captures and the selector override cover every
+// profile, so they live at the top of the data directory
+export function getDiagnosticsDir(): string {
+  return join(getDataDir(), "diagnostics");
+}
+
+export function getFailuresDir(): string {
+  return join(getDataDir(), "failures");
+}
+
+export function getSelectorOverridePath(): string {
+  return join(getDataDir(), "selectors.json");
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const settings = defineStore<{ timeZone?: string }>("config");
+
+/** The timezone set in Settings, or the system's when none is set. */
+export function getTimeZone(): string {
+  const configured = settings().get("timeZone");
+  if (configured && isValidTimeZone(configured)) return configured;
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
 }
 
-export function getSessionPath(): string {
-  return join(getAuthDir(), "session.json");
+interface ZonedParts {
+  year: string;
+  month: string;
+  day: string;
+  hour: string;
+  minute: string;
+  second: string;
 }
 
-export function getTempScreenshotPath(): string {
-  return join(getDataDir(), "temp_screenshot.png");
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "00";
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
 }
 
-export function getDateString(): string {
-  const now = new Date();
-  return now.toISOString().split("T")[0]!;
+// Day folders and filenames both use the configured timezone, so a story seen
+// at 11pm lands in that evening's folder wherever the clock's UTC day is
+export function getDateString(date: Date = new Date(), timeZone: string = getTimeZone()): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${month}-${day}`;
 }
 
-export function getTimeString(): string {
-  const now = new Date();
-  return now.toTimeString().split(" ")[0]!.replace(/:/g, "-");
+export function getTimeString(date: Date = new Date(), timeZone: string = getTimeZone()): string {
+  const { hour, minute, second } = zonedParts(date, timeZone);
+  return `${hour}-${minute}-${second}`;
+}
+
+/** An ISO instant with the timezone's offset, e.g. 2026-10-18T23:05:00.000-07:00. */
+export function toZonedISOString(date: Date = new Date(), timeZone: string = getTimeZone()): string {
+  const { year, month, day, hour, minute, second } = zonedParts(date, timeZone);
+  const ms = date.getTime() % 1000;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second, ms);
+  const offsetMinutes = Math.round((wallClock - date.getTime()) / 60_000);
+  const sign = offsetMinutes < 0 ? "-" : "+";
+  const abs = Math.abs(offsetMinutes);
+  const offset = `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}.${String(ms).padStart(3, "0")}${offset}`;
 }
 
 export async function ensureDayDir(): Promise<string> {
@@ -38,10 +147,40 @@ export async function ensureDayDir(): Promise<string> {
   return dayDir;
 }
 
-export function buildScreenshotPath(username: string, dayDir: string): string {
-  const time = getTimeString();
-  const sanitizedUsername = username.replace(/[^a-zA-Z0-9_]/g, "_");
-  return join(dayDir, `${sanitizedUsername}_${time}.png`);
+// Instagram handles are letters, digits, periods and underscores, so a real
+// handle passes through unchanged and some.venue never collides with some_venue
+export function accountFileName(username: string): string {
+  return username.replace(/[^a-zA-Z0-9._]/g, "_");
+}
+
+export function buildScreenshotPath(username: string, dayDir: string, at: Date = new Date()): string {
+  const time = getTimeString(at);
+  return join(dayDir, `${accountFileName(username)}_${time}.png`);
+}
+
+// Each saved screenshot has a sidecar next to it: username_HH-MM-SS.json
+export interface EventSidecar {
+  imageHash: string;
+  event: ExtractedEvent | null;
+  /** When the story was captured, as an ISO instant with the timezone's offset. */
+  capturedAt?: string;
+  story?: StoryMetadata & { videoFile?: string; highlightId?: string };
+}
+
+export function getSidecarPath(screenshotPath: string): string {
+  return screenshotPath.replace(/\.png$/, ".json");
+}
+
+export async function saveEventSidecar(screenshotPath: string, sidecar: EventSidecar): Promise<void> {
+  await writeFile(getSidecarPath(screenshotPath), JSON.stringify(sidecar, null, 2));
+}
+
+export async function readEventSidecar(screenshotPath: string): Promise<EventSidecar | null> {
+  try {
+    return JSON.parse(await readFile(getSidecarPath(screenshotPath), "utf-8")) as EventSidecar;
+  } catch {
+    return null;
+  }
 }
 
 export interface AccountImage {
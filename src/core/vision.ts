@@ -1,40 +1,81 @@
-import { generateText } from "ai";
-import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+import { generateText, Output } from "ai";
 import sharp from "sharp";
-import Store from "electron-store";
+import { defineStore } from "./storage";
+import { z } from "zod";
+import {
+  createVisionModel,
+  isVisionProviderId,
+  DEFAULT_MODELS,
+  type VisionProviderConfig,
+} from "./providers";
 
-const store = new Store();
+// The app's own settings file, read-only here
+const settings = defineStore("config");
 
-function getOpenRouterClient() {
-  const apiKey = store.get("openrouterApiKey", process.env.OPENROUTER_API_KEY) as string | undefined;
-  if (!apiKey) {
-    throw new Error("No OpenRouter API key configured. Set it in Settings.");
-  }
-  return createOpenRouter({ apiKey });
+export function getVisionConfig(): VisionProviderConfig {
+  const stored = settings().get("visionProvider");
+  const provider = isVisionProviderId(stored) ? stored : "openrouter";
+  return {
+    provider,
+    model: (settings().get("visionModel", "") as string) || DEFAULT_MODELS[provider],
+    baseUrl: settings().get("visionBaseUrl", "") as string,
+    apiKey:
+      provider === "openrouter"
+        ? (settings().get("openrouterApiKey", process.env.OPENROUTER_API_KEY) as string | undefined)
+        : undefined,
+  };
 }
 
+const ExtractedEventSchema = z.object({
+  title: z.string().nullable().describe("Name of the event, as written on the story"),
+  startDate: z.string().nullable().describe("Start date as YYYY-MM-DD"),
+  startTime: z.string().nullable().describe("Start time as 24-hour HH:MM"),
+  endDate: z.string().nullable().describe("End date as YYYY-MM-DD"),
+  endTime: z.string().nullable().describe("End time as 24-hour HH:MM"),
+  venueName: z.string().nullable(),
+  address: z.string().nullable(),
+  price: z.string().nullable().describe("Price as written, e.g. \"$10\", \"Free\", \"$15 adv / $20 door\""),
+  ticketUrl: z.string().nullable(),
+  organizerHandles: z.array(z.string()).describe("Instagram handles without the @"),
+  rawText: z.string().describe("All legible text on the story, in reading order"),
+});
+
+export type ExtractedEvent = z.infer<typeof ExtractedEventSchema>;
+
+const StoryExtractionSchema = z.object({
+  isEvent: z.boolean(),
+  event: ExtractedEventSchema.nullable(),
+});
+
+export type StoryExtraction = z.infer<typeof StoryExtractionSchema>;
+
 const PROMPT = `Is this Instagram story promoting a real event with a specific time and place - like a concert, party, gathering, show, or hangout?
 
-Answer NO if:
+Set isEvent to false if:
 - It's a sponsored post or advertisement
 - It's just a product promotion
 - There's no specific date, time, or location mentioned
 
-Answer YES only if it's promoting an actual event someone could attend.
+Set isEvent to true only if it's promoting an actual event someone could attend.
+
+A video story may arrive as a grid of frames sampled in playback order (left to right, top to bottom). Treat the grid as one story and combine what the frames show.
 
-Reply with only YES or NO.`;
+If isEvent is true, fill in event with the details shown on the story. Use null for anything that isn't shown - never guess. If isEvent is false, set event to null.`;
 
-export async function isEventPromotion(imagePath: string): Promise<boolean> {
-  const optimizedBuffer = await sharp(imagePath)
+export async function extractEvent(
+  image: string | Buffer,
+  config: VisionProviderConfig = getVisionConfig()
+): Promise<StoryExtraction> {
+  const optimizedBuffer = await sharp(image)
     .resize(640)
     .webp({ quality: 50 })
     .toBuffer();
 
   const base64Image = optimizedBuffer.toString("base64");
 
-  const openrouter = getOpenRouterClient();
-  const { text } = await generateText({
-    model: openrouter("google/gemini-2.5-flash-lite"),
+  const { output } = await generateText({
+    model: await createVisionModel(config),
+    output: Output.object({ schema: StoryExtractionSchema }),
     messages: [
       {
         role: "user",
@@ -49,5 +90,9 @@ export async function isEventPromotion(imagePath: string): Promise<boolean> {
     ],
   });
 
-  return text.trim().toUpperCase().startsWith("YES");
+  // A "not an event" verdict never carries details
+  if (!output.isEvent) {
+    return { isEvent: false, event: null };
+  }
+  return output;
 }
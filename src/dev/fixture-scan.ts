@@ -0,0 +1,314 @@
+import { mkdtempSync, existsSync } from "fs";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, dirname, join } from "path";
+import sharp from "sharp";
+import { startFixtureServer, FIXTURE_FEED, FIXTURE_SESSION_COOKIE, type FixtureStory } from "./fixture-server";
+import { configureCore } from "../core/environment";
+import { runScraper, type ScanOptions } from "../core/scraper";
+import type { StoryExtraction } from "../core/vision";
+import { getSeenStory } from "../core/seen";
+import { formatProgressEvent, type ScanProgressEvent } from "../core/progress";
+import { getAuthDir, getDateString, getSessionPath, readEventSidecar } from "../core/utils";
+import { getEventKey, listEvents, listScans } from "../core/library";
+import { computeImageHash, hammingDistance } from "../core/imagehash";
+import { MATCH_THRESHOLD } from "../core/cache";
+
+// Runs a full scan against the offline fixture with a stub classifier:
+//   npm run scan:fixture
+// Exits non-zero when the scraper misses a behaviour the fixture is built to
+// exercise, so selector changes can be checked before they meet Instagram.
+
+const HIDDEN_ACCOUNT = "muted_account";
+const WATCHLIST = ["art.space", "blue.room.pdx", "no_stories_today"];
+const HIGHLIGHT_ACCOUNT = "art.space";
+
+const FIXTURE_STORIES = FIXTURE_FEED.flatMap((u) => [...u.stories, ...(u.highlights ?? []).flatMap((h) => h.stories)]);
+
+// Stands in for the vision model. Each flyer has its own background colour,
+// which survives screenshots, video frames and contact sheets alike, so the
+// verdict is the one the fixture gives that flyer.
+async function classifyByBackground(image: Buffer): Promise<StoryExtraction> {
+  const { dominant } = await sharp(image).stats();
+  const distance = (story: FixtureStory) => {
+    const rgb = parseInt(story.background.slice(1), 16);
+    return Math.abs((rgb >> 16) - dominant.r) + Math.abs(((rgb >> 8) & 0xff) - dominant.g) + Math.abs((rgb & 0xff) - dominant.b);
+  };
+  const story = FIXTURE_STORIES.reduce((best, candidate) => (distance(candidate) < distance(best) ? candidate : best));
+  return {
+    isEvent: story.isEvent,
+    event: story.isEvent
+      ? {
+          title: story.lines[0]!,
+          startDate: null,
+          startTime: null,
+          endDate: null,
+          endTime: null,
+          venueName: null,
+          address: null,
+          price: null,
+          ticketUrl: null,
+          organizerHandles: [],
+          rawText: story.lines.join("\n"),
+        }
+      : null,
+  };
+}
+
+// A throwaway data directory so nothing touches the real library
+configureCore({
+  dataDir: mkdtempSync(join(tmpdir(), "scene-scout-fixture-")),
+  prompt: async () => {},
+});
+
+(async () => {
+  const server = await startFixtureServer();
+  const { hostname } = new URL(server.baseUrl);
+
+  await mkdir(getAuthDir(), { recursive: true });
+  await writeFile(
+    getSessionPath(),
+    JSON.stringify({
+      cookies: [
+        {
+          name: FIXTURE_SESSION_COOKIE,
+          value: "fixture",
+          domain: hostname,
+          path: "/",
+          expires: -1,
+          httpOnly: true,
+          secure: false,
+          sameSite: "Lax",
+        },
+      ],
+      origins: [],
+    })
+  );
+
+  const scan = async (options: ScanOptions = {}) => {
+    const events: ScanProgressEvent[] = [];
+    const result = await runScraper(
+      (event) => {
+        events.push(event);
+        console.log(formatProgressEvent(event));
+      },
+      [HIDDEN_ACCOUNT],
+      {
+        baseUrl: server.baseUrl,
+        classify: classifyByBackground,
+        ...options,
+      }
+    );
+    return { events, result };
+  };
+
+  const { events, result } = await scan({ debug: true, trigger: "interval" });
+  const { events: watchEvents, result: watchResult } = await scan({ accounts: WATCHLIST });
+  const cappedRun = await scan({ accounts: [HIGHLIGHT_ACCOUNT], highlights: true, budget: { perScan: { maxStories: 1 } } });
+  const highlightRun = await scan({ accounts: [HIGHLIGHT_ACCOUNT], highlights: true });
+  const highlightRerun = await scan({ accounts: [HIGHLIGHT_ACCOUNT], highlights: true });
+  const dayCappedRun = await scan({ budget: { perDay: { maxStories: 1 } } });
+  // An empty story tray ends the scan early, which debug mode captures
+  const emptyServer = await startFixtureServer([]);
+  const emptyRun = await scan({ baseUrl: emptyServer.baseUrl, debug: true });
+  await emptyServer.close();
+  // Every flyer as served, to check the hash keeps different ones apart
+  const flyerHashes = await Promise.all(
+    FIXTURE_STORIES.map(async (story) => {
+      const res = await fetch(`${server.baseUrl}/media/${story.id}.jpg`);
+      return { story, hash: await computeImageHash(Buffer.from(await res.arrayBuffer())) };
+    })
+  );
+  await server.close();
+
+  const failures: string[] = [];
+  const expect = (ok: boolean, message: string) => {
+    if (!ok) failures.push(message);
+  };
+
+  // Reposts of one flyer share a cache entry; different flyers never do
+  for (const [i, a] of flyerHashes.entries()) {
+    for (const b of flyerHashes.slice(i + 1)) {
+      const same = a.story.background === b.story.background && a.story.lines.join("\n") === b.story.lines.join("\n");
+      const distance = hammingDistance(a.hash, b.hash);
+      expect(
+        same ? distance <= MATCH_THRESHOLD : distance > MATCH_THRESHOLD,
+        `${a.story.id} and ${b.story.id} are ${distance} bits apart but are ${same ? "the same" : "different"} flyers`
+      );
+    }
+  }
+
+  expect(!result.error, `scan reported an error: ${result.error}`);
+  expect(!result.failureDir, `debug mode kept failure artifacts for a clean scan: ${result.failureDir}`);
+
+  // The capture is taken before the browser closes, so all of it is there
+  const failureDir = emptyRun.result.failureDir;
+  expect(!!failureDir, "debug mode kept nothing for a scan that found no stories");
+  if (failureDir) {
+    expect(existsSync(join(failureDir, "trace.zip")), `no trace in ${failureDir}`);
+    const screenshots = await readdir(join(failureDir, "screenshots")).catch(() => []);
+    expect(screenshots.length > 0, `no screenshots in ${failureDir}`);
+    const html = await readFile(join(failureDir, "page.html"), "utf-8").catch(() => "");
+    expect(html.includes('class="tray"'), `page.html in ${failureDir} doesn't hold the page`);
+  }
+
+  const visited = new Set(events.flatMap((e) => (e.type === "story-started" ? [e.username] : [])));
+  for (const user of FIXTURE_FEED) {
+    expect(visited.has(user.username), `never reached @${user.username}`);
+  }
+
+  expect(
+    events.some((e) => e.type === "skipped-hidden" && e.username === HIDDEN_ACCOUNT),
+    `hidden account @${HIDDEN_ACCOUNT} was not skipped`
+  );
+  expect(events.some((e) => e.type === "stuck"), "dead-end story was not detected as stuck");
+
+  // Each run leaves a finished record in the scan history
+  const history = listScans();
+  expect(history.length === 7, `expected 7 scans in the history, got ${history.length}`);
+  const feedRecord = history.find((s) => s.id === result.scanId);
+  expect(
+    !!feedRecord?.finishedAt && feedRecord.trigger === "interval" && feedRecord.storyCount === result.storyCount,
+    `scan history doesn't match the feed scan: ${JSON.stringify(feedRecord)}`
+  );
+  expect(
+    (feedRecord?.hiddenSkipped ?? 0) > 0 && feedRecord?.hiddenSkipped === result.hiddenSkipped,
+    `scan history missed the hidden account: ${feedRecord?.hiddenSkipped}`
+  );
+
+  // Every story the feed scan reached carries its own flyer's verdict; a cache
+  // hit on a different flyer would have handed it that flyer's instead
+  const describe = (isEvent: boolean | undefined) =>
+    isEvent === undefined ? "never classified" : isEvent ? "an event" : "not an event";
+  for (const user of FIXTURE_FEED) {
+    if (user.username === HIDDEN_ACCOUNT) continue;
+    const deadEnd = user.stories.findIndex((s) => s.deadEnd);
+    const reached = deadEnd === -1 ? user.stories : user.stories.slice(0, deadEnd + 1);
+    for (const story of reached) {
+      const seen = getSeenStory(story.id);
+      expect(
+        seen?.isEvent === story.isEvent,
+        `story ${story.id} from @${user.username} was ${describe(seen?.isEvent)}, expected ${describe(story.isEvent)}`
+      );
+    }
+  }
+
+  const saved = events.flatMap((e) => (e.type === "classified" && e.savedPath ? [e.savedPath] : []));
+  expect(saved.length === result.eventCount, `saved ${saved.length} files but reported ${result.eventCount} events`);
+  const fixtureStories = new Map(FIXTURE_FEED.flatMap((u) => u.stories.map((s) => [s.id, s] as const)));
+  let savedVideos = 0;
+  for (const path of saved) {
+    expect(existsSync(path), `saved event missing on disk: ${path}`);
+    const story = (await readEventSidecar(path))?.story;
+    const fixture = fixtureStories.get(story?.storyId ?? "");
+    expect(!!fixture, `no story ID recorded for ${path}`);
+    expect(!!story?.postedAt, `no posted time recorded for ${path}`);
+    if (fixture?.kind === "video") {
+      savedVideos++;
+      expect(story?.mediaType === "video", `video story not recognised as video: ${path}`);
+      expect((story?.sampledFrames ?? 0) > 1, `video story sampled ${story?.sampledFrames} frames: ${path}`);
+      expect(
+        !!story?.videoFile && existsSync(join(dirname(path), story.videoFile)),
+        `video not saved alongside ${path}`
+      );
+    }
+    if (fixture?.stickers?.link) {
+      expect(!!story?.linkUrls.includes(fixture.stickers.link), `link sticker not recorded for ${path}`);
+    }
+    for (const mention of fixture?.stickers?.mentions ?? []) {
+      expect(!!story?.mentions.includes(mention), `@${mention} not recorded for ${path}`);
+    }
+  }
+
+  const videoEvents = FIXTURE_FEED.flatMap((u) => u.stories).filter((s) => s.kind === "video" && s.isEvent);
+  expect(savedVideos === videoEvents.length, `saved ${savedVideos} video events, expected ${videoEvents.length}`);
+
+  // Every saved event is in the library database too, under the real handle
+  const library = new Map(listEvents().map((e) => [e.key, e]));
+  for (const path of saved) {
+    const entry = library.get(getEventKey(path));
+    expect(!!entry, `saved event missing from the library: ${path}`);
+    const sidecar = await readEventSidecar(path);
+    const author = sidecar?.story?.author;
+    if (entry) {
+      // Day folders follow the capture time in the configured timezone
+      expect(!!sidecar?.capturedAt && !sidecar.capturedAt.endsWith("Z"), `no zoned capture time for ${path}`);
+      expect(entry.key.startsWith(`${getDateString(new Date(entry.capturedAt))}/`), `${path} is filed under the wrong day`);
+    }
+    if (entry && author) {
+      expect(entry.username === author, `library has @${entry.username} for @${author}'s event`);
+      expect(basename(path).startsWith(`${author}_`), `filename doesn't keep @${author}'s handle: ${path}`);
+    }
+  }
+
+  const done = events.filter((e) => e.type === "done");
+  expect(done.length === 1, `expected one done event, got ${done.length}`);
+
+  // Watchlist mode only visits the listed accounts, and all of their stories.
+  // The feed scan already processed them, so every one is skipped as seen.
+  expect(!watchResult.error, `watchlist scan reported an error: ${watchResult.error}`);
+  const watchVisited = new Set(
+    watchEvents.flatMap((e) => (e.type === "story-started" || e.type === "skipped-seen" ? [e.username] : []))
+  );
+  const expectedStories = FIXTURE_FEED.filter((u) => WATCHLIST.includes(u.username)).flatMap((u) => u.stories);
+  expect(
+    [...watchVisited].every((u) => WATCHLIST.includes(u)),
+    `watchlist scan strayed to ${[...watchVisited].filter((u) => !WATCHLIST.includes(u)).join(", ")}`
+  );
+  expect(
+    watchResult.alreadySeen === expectedStories.length,
+    `watchlist scan skipped ${watchResult.alreadySeen} seen stories, expected ${expectedStories.length}`
+  );
+  expect(watchResult.storyCount === 0, `watchlist scan re-processed ${watchResult.storyCount} seen stories`);
+  expect(
+    watchEvents.some((e) => e.type === "no-active-stories" && e.username === "no_stories_today"),
+    "account without stories was not reported"
+  );
+
+  // A per-scan cap of one story stops after the first highlight frame; the
+  // next run picks up the rest, and a run after that has nothing new
+  const highlightUser = FIXTURE_FEED.find((u) => u.username === HIGHLIGHT_ACCOUNT)!;
+  const highlightFrames = (highlightUser.highlights ?? []).flatMap((h) => h.stories).length;
+  expect(
+    cappedRun.result.storyCount === 1 &&
+      cappedRun.result.limitReached?.scope === "scan" &&
+      cappedRun.result.limitReached.kind === "stories",
+    `capped scan processed ${cappedRun.result.storyCount} stories, limit ${JSON.stringify(cappedRun.result.limitReached)}`
+  );
+  expect(
+    highlightRun.result.storyCount === highlightFrames - 1,
+    `highlight scan processed ${highlightRun.result.storyCount} stories, expected ${highlightFrames - 1} frames`
+  );
+  const savedStoryIds = new Set(listEvents().flatMap((e) => (e.story?.storyId ? [e.story.storyId] : [])));
+  for (const frame of (highlightUser.highlights ?? []).flatMap((h) => h.stories)) {
+    expect(
+      savedStoryIds.has(frame.id) === frame.isEvent,
+      `highlight frame ${frame.id} was ${savedStoryIds.has(frame.id) ? "" : "not "}saved, expected ${describe(frame.isEvent)}`
+    );
+  }
+  expect(
+    highlightRerun.result.storyCount === 0,
+    `highlight re-scan processed ${highlightRerun.result.storyCount} stories, expected none`
+  );
+
+  // Earlier runs used up the day's stories, so this one ends before it starts
+  expect(
+    dayCappedRun.result.limitReached?.scope === "day" && dayCappedRun.result.storyCount === 0,
+    `daily cap did not stop the scan: ${JSON.stringify(dayCappedRun.result.limitReached)}`
+  );
+
+  console.log("");
+  if (failures.length > 0) {
+    console.error(`Fixture scan FAILED:\n  - ${failures.join("\n  - ")}`);
+    process.exit(1);
+  } else {
+    console.log(
+      `Fixture scan passed: ${result.storyCount} stories, ${result.eventCount} events; ` +
+        `watchlist ${watchResult.storyCount} stories.`
+    );
+    process.exit(0);
+  }
+})().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,455 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { chromium } from "playwright";
+import sharp from "sharp";
+import { getPlaywrightBrowserPath } from "../core/playwright-config";
+
+// An offline stand-in for the parts of instagram.com the scraper touches: the
+// feed's story tray and the /stories/USERNAME/ID/ viewer. Markup mirrors the
+// selectors in scraper.ts, so a selector change can be checked without a live
+// account.
+
+export type FixtureStoryKind = "image" | "video" | "ad";
+
+export interface FixtureStory {
+  id: string;
+  kind: FixtureStoryKind;
+  lines: string[];
+  /** Tells flyers apart for the fixture's stub classifier, so no two distinct flyers share one. */
+  background: string;
+  /** The stub classifier's verdict, which the scan has to record against this story. */
+  isEvent: boolean;
+  /** ArrowRight does nothing here, so the scraper has to detect it's stuck. */
+  deadEnd?: boolean;
+  stickers?: FixtureStickers;
+}
+
+export interface FixtureStickers {
+  link?: string;
+  mentions?: string[];
+  location?: string;
+}
+
+export interface FixtureHighlight {
+  id: string;
+  title: string;
+  stories: FixtureStory[];
+}
+
+export interface FixtureUser {
+  username: string;
+  stories: FixtureStory[];
+  highlights?: FixtureHighlight[];
+}
+
+export const FIXTURE_SESSION_COOKIE = "sessionid";
+
+// Stories in the fixture were "posted" ten minutes apart from this instant
+const FIXTURE_EPOCH_SECONDS = 1770000000;
+
+export const FIXTURE_FEED: FixtureUser[] = [
+  {
+    username: "blue.room.pdx",
+    stories: [
+      {
+        id: "3100000000000000001",
+        kind: "image",
+        isEvent: true,
+        background: "#1d2b53",
+        lines: ["JAZZ NIGHT", "FRI FEB 13", "9PM - BLUE ROOM", "$10 AT THE DOOR"],
+        stickers: { link: "https://tickets.example.com/jazz-night", mentions: ["promo_collective"], location: "Blue Room PDX" },
+      },
+      { id: "3100000000000000002", kind: "image", isEvent: false, background: "#3a3a3a", lines: ["thanks for", "coming out", "last night!"] },
+    ],
+  },
+  {
+    username: "promo_collective",
+    stories: [
+      { id: "3100000000000000003", kind: "image", isEvent: true, background: "#1d2b53", lines: ["JAZZ NIGHT", "FRI FEB 13", "9PM - BLUE ROOM", "$10 AT THE DOOR"] },
+      { id: "3100000000000000004", kind: "video", isEvent: true, background: "#7e2553", lines: ["WAREHOUSE", "RAVE", "SAT 11PM"] },
+    ],
+  },
+  {
+    username: "sneaker_shop_ads",
+    stories: [{ id: "3100000000000000005", kind: "ad", isEvent: false, background: "#ff004d", lines: ["50% OFF", "SHOP NOW"] }],
+  },
+  {
+    username: "friend_with_a_cat",
+    stories: [
+      { id: "3100000000000000006", kind: "image", isEvent: false, background: "#008751", lines: ["look at", "this cat"], deadEnd: true },
+      { id: "3100000000000000007", kind: "image", isEvent: false, background: "#ffccaa", lines: ["never reached"] },
+    ],
+  },
+  {
+    username: "muted_account",
+    stories: [{ id: "3100000000000000008", kind: "image", isEvent: true, background: "#5f574f", lines: ["OPEN MIC", "TUES 7PM"] }],
+  },
+  {
+    username: "art.space",
+    stories: [{ id: "3100000000000000009", kind: "image", isEvent: true, background: "#ffa300", lines: ["GALLERY OPENING", "THU MAR 5 6-9PM", "412 SE ASH ST"] }],
+    highlights: [
+      {
+        id: "17900000000000001",
+        title: "March",
+        stories: [
+          { id: "3200000000000000001", kind: "image", isEvent: true, background: "#29adff", lines: ["MARCH AT ART.SPACE", "3/5 OPENING 6PM", "3/19 ARTIST TALK 7PM"] },
+          { id: "3200000000000000002", kind: "image", isEvent: false, background: "#83769c", lines: ["install day", "sneak peek"] },
+        ],
+      },
+      {
+        id: "17900000000000002",
+        title: "Visit",
+        stories: [{ id: "3200000000000000003", kind: "image", isEvent: false, background: "#ab5236", lines: ["OPEN WED-SUN", "12-6PM"] }],
+      },
+    ],
+  },
+];
+
+function allStories(feed: FixtureUser[]): FixtureStory[] {
+  return feed.flatMap((u) => [...u.stories, ...(u.highlights ?? []).flatMap((h) => h.stories)]);
+}
+
+function postedAt(feed: FixtureUser[], story: FixtureStory): number {
+  return FIXTURE_EPOCH_SECONDS + allStories(feed).indexOf(story) * 600;
+}
+
+function storyPath(username: string, story: FixtureStory): string {
+  return `/stories/${encodeURIComponent(username)}/${story.id}/`;
+}
+
+function findStory(feed: FixtureUser[], username: string, id: string) {
+  const userIndex = feed.findIndex((u) => u.username === username);
+  if (userIndex === -1) return null;
+  const storyIndex = feed[userIndex]!.stories.findIndex((s) => s.id === id);
+  if (storyIndex === -1) return null;
+  return { userIndex, storyIndex, user: feed[userIndex]!, story: feed[userIndex]!.stories[storyIndex]! };
+}
+
+// Mirrors Instagram's reels_media payload. Ads are served outside it, as on the
+// real site, so they exercise the scraper's screenshot fallback. Highlights
+// are requested as "highlight:ID".
+function renderReelsMedia(feed: FixtureUser[], reelId: string, origin: string): string {
+  const highlightId = reelId.startsWith("highlight:") ? reelId.slice("highlight:".length) : null;
+  const userIndex = highlightId
+    ? feed.findIndex((u) => u.highlights?.some((h) => h.id === highlightId))
+    : feed.findIndex((u) => u.username === reelId);
+  const user = feed[userIndex];
+  if (!user) return JSON.stringify({ reels_media: [], status: "ok" });
+
+  const owner = { pk: String(1000 + userIndex), username: user.username };
+  const stories = highlightId ? user.highlights!.find((h) => h.id === highlightId)!.stories : user.stories;
+  const items = stories
+    .filter((story) => story.kind !== "ad")
+    .map((story) => ({
+      pk: story.id,
+      id: `${story.id}_${owner.pk}`,
+      taken_at: postedAt(feed, story),
+      user: owner,
+      image_versions2: {
+        candidates: [
+          { url: `${origin}/media/${story.id}.jpg`, width: 1080, height: 1920 },
+          { url: `${origin}/media/${story.id}.jpg?w=320`, width: 320, height: 569 },
+        ],
+      },
+      ...(story.kind === "video"
+        ? { video_versions: [{ url: `${origin}/media/${story.id}.mp4`, width: 720, height: 1280 }] }
+        : {}),
+      story_link_stickers: story.stickers?.link ? [{ story_link: { url: story.stickers.link } }] : [],
+      reel_mentions: (story.stickers?.mentions ?? []).map((username) => ({ user: { username } })),
+      story_locations: story.stickers?.location ? [{ location: { name: story.stickers.location } }] : [],
+    }));
+
+  const id = highlightId ? `highlight:${highlightId}` : owner.pk;
+  return JSON.stringify({ reels_media: [{ id, user: owner, items }], status: "ok" });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function renderStorySvg(story: FixtureStory): string {
+  const text = story.lines
+    .map((line, i) => `<text x="50%" y="${260 + i * 80}" text-anchor="middle" font-family="sans-serif" font-size="56" font-weight="bold" fill="#fff1e8">${escapeHtml(line)}</text>`)
+    .join("");
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="1080" height="1920"><rect width="1080" height="1920" fill="${story.background}"/>${text}</svg>`;
+}
+
+const VIDEO_LINE_MS = 500;
+
+// Records the flyer with its lines appearing one at a time, like a flyer that
+// animates in, so frames sampled at different points differ. Playwright's
+// recorder writes WebM, which Chromium plays whatever the URL says.
+async function recordStoryVideo(story: FixtureStory): Promise<Buffer> {
+  const dir = await mkdtemp(join(tmpdir(), "scene-scout-video-"));
+  const browser = await chromium.launch({ headless: true, executablePath: getPlaywrightBrowserPath() });
+  try {
+    const size = { width: 360, height: 640 };
+    const context = await browser.newContext({ viewport: size, recordVideo: { dir, size } });
+    const recording = await context.newPage();
+    await recording.setContent(
+      `<body style="margin:0"><style>svg { display: block; width: 100vw; height: 100vh; } text { visibility: hidden; }</style>${renderStorySvg(story)}<script>
+        document.querySelectorAll('text').forEach(function (line, i) {
+          setTimeout(function () { line.style.visibility = 'visible'; }, (i + 1) * ${VIDEO_LINE_MS});
+        });
+      </script></body>`
+    );
+    await recording.waitForTimeout((story.lines.length + 2) * VIDEO_LINE_MS);
+    const video = recording.video()!;
+    await context.close();
+    return await readFile(await video.path());
+  } finally {
+    await browser.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function page(title: string, body: string, script = ""): string {
+  return `<!DOCTYPE html><html><head><title>${escapeHtml(title)}</title><style>
+    body { margin: 0; background: #000; color: #fff; font-family: sans-serif; }
+    .tray { display: flex; gap: 12px; padding: 16px; background: #fff; }
+    .tray canvas { width: 56px; height: 56px; border-radius: 50%; background: #c13584; }
+    section[role="presentation"] { position: relative; width: 405px; height: 720px; margin: 0 auto; overflow: hidden; }
+    section[role="presentation"] header { position: absolute; top: 12px; left: 12px; z-index: 1; }
+    section[role="presentation"] header a { color: #fff; font-weight: 600; }
+    section[role="presentation"] .stickers { position: absolute; bottom: 48px; left: 0; right: 0; z-index: 1; text-align: center; }
+    section[role="presentation"] .sticker { display: inline-block; margin: 4px; padding: 6px 10px; border-radius: 8px; background: #fff; color: #000; }
+    section[role="presentation"] img, section[role="presentation"] video { width: 405px; height: 720px; object-fit: cover; }
+  </style></head><body>${body}<script>${script}</script></body></html>`;
+}
+
+function renderFeed(feed: FixtureUser[]): string {
+  const tray = feed
+    .map((u) => `<div role="button" data-href="${storyPath(u.username, u.stories[0]!)}"><canvas width="56" height="56"></canvas></div>`)
+    .join("");
+  return page(
+    "Instagram",
+    `<div class="tray">${tray}</div><main>Feed</main>`,
+    `document.querySelectorAll('div[role="button"]').forEach(function (el) {
+      el.addEventListener('click', function () { location.href = el.dataset.href; });
+    });`
+  );
+}
+
+// Stickers sit over the media as links, the way the viewer renders them
+function renderStickers(stickers: FixtureStickers | undefined): string {
+  if (!stickers) return "";
+  const links: string[] = [];
+  if (stickers.link) {
+    const shim = `https://l.instagram.com/?u=${encodeURIComponent(stickers.link)}&e=fixture`;
+    links.push(`<a class="sticker" href="${escapeHtml(shim)}">${escapeHtml(new URL(stickers.link).hostname)}</a>`);
+  }
+  for (const mention of stickers.mentions ?? []) {
+    links.push(`<a class="sticker" href="/${escapeHtml(mention)}/">@${escapeHtml(mention)}</a>`);
+  }
+  if (stickers.location) {
+    links.push(`<a class="sticker" href="/explore/locations/1/fixture/">${escapeHtml(stickers.location)}</a>`);
+  }
+  return `<div class="stickers">${links.join("")}</div>`;
+}
+
+function renderViewer(feed: FixtureUser[], username: string, id: string): string | null {
+  const found = findStory(feed, username, id);
+  if (!found) return null;
+  const { userIndex, storyIndex, user, story } = found;
+
+  const nextUser = feed[userIndex + 1];
+  const nextUserHref = nextUser ? storyPath(nextUser.username, nextUser.stories[0]!) : "/";
+  const nextStory = user.stories[storyIndex + 1];
+  const nextHref = story.deadEnd ? null : nextStory ? storyPath(user.username, nextStory) : nextUserHref;
+
+  const mediaUrl = `/media/${story.id}.jpg`;
+  const media =
+    story.kind === "video"
+      ? `<video src="/media/${story.id}.mp4" poster="${mediaUrl}" autoplay muted playsinline></video>`
+      : `<img src="${mediaUrl}" alt="" />`;
+  const sponsored = story.kind === "ad" ? `<span>Sponsored</span>` : "";
+  const posted = new Date(postedAt(feed, story) * 1000).toISOString();
+
+  return page(
+    `Stories • Instagram`,
+    `<section role="presentation">
+      <header><a href="/${escapeHtml(user.username)}/">${escapeHtml(user.username)}</a> <span>${escapeHtml(user.username)}</span> <time datetime="${posted}">10m</time> ${sponsored}</header>
+      ${media}
+      ${renderStickers(story.stickers)}
+    </section>`,
+    `fetch('/api/v1/feed/reels_media/?reel_ids=' + encodeURIComponent(${JSON.stringify(user.username)}));
+    var nextHref = ${JSON.stringify(nextHref)};
+    var nextUserHref = ${JSON.stringify(nextUserHref)};
+    document.addEventListener('keydown', function (e) {
+      if (e.key === 'ArrowRight' && nextHref) location.href = nextHref;
+    });
+    document.addEventListener('click', function (e) {
+      if (e.clientX > window.innerWidth * 0.7) location.href = nextUserHref;
+    });`
+  );
+}
+
+function renderProfile(feed: FixtureUser[], username: string): string {
+  const user = feed.find((u) => u.username === username);
+  const highlights = (user?.highlights ?? [])
+    .map((h) => `<li><a href="/stories/highlights/${h.id}/">${escapeHtml(h.title)}</a></li>`)
+    .join("");
+  return page(`@${username} • Instagram`, `<main><h1>@${escapeHtml(username)}</h1><ul>${highlights}</ul></main>`);
+}
+
+// The highlight viewer keeps one URL and swaps frames in place, like the real
+// one, so the scraper can only tell frames apart through the reel payload
+function renderHighlightViewer(feed: FixtureUser[], highlightId: string): string | null {
+  const user = feed.find((u) => u.highlights?.some((h) => h.id === highlightId));
+  if (!user) return null;
+  const highlights = user.highlights!;
+  const index = highlights.findIndex((h) => h.id === highlightId);
+  const highlight = highlights[index]!;
+  const next = highlights[index + 1];
+  const exitHref = next ? `/stories/highlights/${next.id}/` : `/${user.username}/`;
+
+  return page(
+    `Stories • Instagram`,
+    `<section role="presentation">
+      <header><a href="/${escapeHtml(user.username)}/">${escapeHtml(user.username)}</a> <span>${escapeHtml(highlight.title)}</span></header>
+      <img id="frame" src="/media/${highlight.stories[0]!.id}.jpg" alt="" />
+    </section>`,
+    `fetch('/api/v1/feed/reels_media/?reel_ids=' + encodeURIComponent('highlight:' + ${JSON.stringify(highlightId)}));
+    var frames = ${JSON.stringify(highlight.stories.map((st) => `/media/${st.id}.jpg`))};
+    var position = 0;
+    document.addEventListener('keydown', function (e) {
+      if (e.key !== 'ArrowRight') return;
+      position++;
+      if (position < frames.length) document.getElementById('frame').src = frames[position];
+      else location.href = ${JSON.stringify(exitHref)};
+    });`
+  );
+}
+
+function renderLogin(): string {
+  return page(
+    "Login • Instagram",
+    `<form id="loginForm"><input name="username" /><input name="password" type="password" /></form>`
+  );
+}
+
+function hasSession(req: IncomingMessage): boolean {
+  return (req.headers.cookie ?? "").split(/;\s*/).some((c) => c.startsWith(`${FIXTURE_SESSION_COOKIE}=`));
+}
+
+async function handle(
+  feed: FixtureUser[],
+  videos: Map<string, Promise<Buffer>>,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const url = new URL(req.url ?? "/", "http://fixture");
+  const send = (status: number, type: string, body: string | Buffer) => {
+    res.writeHead(status, { "Content-Type": type });
+    res.end(body);
+  };
+
+  if (url.pathname === "/accounts/login/") {
+    return send(200, "text/html", renderLogin());
+  }
+
+  if (!hasSession(req) && !url.pathname.startsWith("/media/")) {
+    res.writeHead(302, { Location: "/accounts/login/" });
+    res.end();
+    return;
+  }
+
+  if (url.pathname === "/") {
+    return send(200, "text/html", renderFeed(feed));
+  }
+
+  if (url.pathname === "/api/v1/feed/reels_media/") {
+    const origin = `http://${req.headers.host}`;
+    return send(200, "application/json", renderReelsMedia(feed, url.searchParams.get("reel_ids") ?? "", origin));
+  }
+
+  // Opening an account's stories by URL starts at its first story, or falls
+  // back to the profile when it has none, like the real site
+  const reelMatch = url.pathname.match(/^\/stories\/([^/]+)\/$/);
+  if (reelMatch) {
+    const user = feed.find((u) => u.username === decodeURIComponent(reelMatch[1]!));
+    res.writeHead(302, { Location: user ? storyPath(user.username, user.stories[0]!) : `/${reelMatch[1]}/` });
+    res.end();
+    return;
+  }
+
+  const highlightMatch = url.pathname.match(/^\/stories\/highlights\/(\d+)\/$/);
+  if (highlightMatch) {
+    const html = renderHighlightViewer(feed, highlightMatch[1]!);
+    return html ? send(200, "text/html", html) : send(404, "text/plain", "Highlight not found");
+  }
+
+  const profileMatch = url.pathname.match(/^\/([A-Za-z0-9._]+)\/$/);
+  if (profileMatch) {
+    return send(200, "text/html", renderProfile(feed, profileMatch[1]!));
+  }
+
+  const storyMatch = url.pathname.match(/^\/stories\/([^/]+)\/(\d+)\/$/);
+  if (storyMatch) {
+    const html = renderViewer(feed, decodeURIComponent(storyMatch[1]!), storyMatch[2]!);
+    return html ? send(200, "text/html", html) : send(404, "text/plain", "Story not found");
+  }
+
+  const mediaMatch = url.pathname.match(/^\/media\/(\d+)\.jpg$/);
+  if (mediaMatch) {
+    const story = allStories(feed).find((s) => s.id === mediaMatch[1]);
+    if (!story) return send(404, "text/plain", "Media not found");
+    const jpeg = await sharp(Buffer.from(renderStorySvg(story))).jpeg({ quality: 85 }).toBuffer();
+    return send(200, "image/jpeg", jpeg);
+  }
+
+  // Recorded on first request and kept for the server's lifetime
+  const videoMatch = url.pathname.match(/^\/media\/(\d+)\.mp4$/);
+  if (videoMatch) {
+    const story = allStories(feed).find((s) => s.id === videoMatch[1] && s.kind === "video");
+    if (!story) return send(404, "text/plain", "Media not found");
+    let video = videos.get(story.id);
+    if (!video) {
+      video = recordStoryVideo(story);
+      videos.set(story.id, video);
+    }
+    // Chromium only seeks in media it can fetch by byte range
+    const body = await video;
+    const range = (req.headers.range ?? "").match(/^bytes=(\d+)-(\d*)$/);
+    const start = range ? Math.min(Number(range[1]), body.length - 1) : 0;
+    const end = range?.[2] ? Math.min(Number(range[2]), body.length - 1) : body.length - 1;
+    res.writeHead(range ? 206 : 200, {
+      "Content-Type": "video/webm",
+      "Accept-Ranges": "bytes",
+      "Content-Length": end - start + 1,
+      ...(range ? { "Content-Range": `bytes ${start}-${end}/${body.length}` } : {}),
+    });
+    res.end(body.subarray(start, end + 1));
+    return;
+  }
+
+  send(404, "text/plain", "Not found");
+}
+
+export interface FixtureServer {
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+export function startFixtureServer(feed: FixtureUser[] = FIXTURE_FEED, port = 0): Promise<FixtureServer> {
+  const videos = new Map<string, Promise<Buffer>>();
+  const server = createServer((req, res) => {
+    handle(feed, videos, req, res).catch((err) => {
+      res.writeHead(500, { "Content-Type": "text/plain" });
+      res.end(`${err}`);
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, "127.0.0.1", () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        baseUrl: `http://127.0.0.1:${boundPort}`,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
+}
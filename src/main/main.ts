@@ -1,10 +1,20 @@
-import { app, protocol, net } from "electron";
+import { app, dialog, protocol, net } from "electron";
 import { mkdir } from "fs/promises";
 import { join, normalize } from "path";
 import { pathToFileURL } from "url";
-import { createTray, openOnboardingWindow, startAutoScan } from "./tray";
-import store from "./store";
-import { getAuthDir, getEventsDir } from "../core/utils";
+import { createTray, migrateActiveLibrary, openOnboardingWindow, startAutoScan } from "./tray";
+import store, { getActiveProfile } from "./store";
+import { getAuthDir, getEventsDir, setActiveProfile } from "../core/utils";
+import { configureCore } from "../core/environment";
+import { findBundledBrowser } from "../core/playwright-config";
+
+configureCore({
+  dataDir: app.getPath("userData"),
+  browserPath: app.isPackaged ? findBundledBrowser(process.resourcesPath) : undefined,
+  prompt: async ({ title, message, detail }) => {
+    await dialog.showMessageBox({ type: "info", title, message, detail, buttons: ["OK"] });
+  },
+});
 
 // Register custom protocol scheme before app is ready
 protocol.registerSchemesAsPrivileged([
@@ -17,9 +27,13 @@ if (process.platform === "darwin") {
 }
 
 app.whenReady().then(async () => {
+  setActiveProfile(getActiveProfile().id);
+
   // Ensure data directories exist
   await mkdir(getAuthDir(), { recursive: true });
   await mkdir(getEventsDir(), { recursive: true });
+  // Libraries from older versions get brought up to date once, before anything reads them
+  await migrateActiveLibrary();
 
   // Handle scene-scout:// protocol for serving local event images
   // URLs look like: scene-scout://local/2026-02-09/file.png
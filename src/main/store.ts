@@ -1,4 +1,9 @@
 import Store from "electron-store";
+import type { VisionProviderId } from "../core/providers";
+import { DEFAULT_PROFILE_ID, type Profile } from "../core/utils";
+import { DEFAULT_CLASSIFY_CONCURRENCY } from "../core/scraper";
+import { DEFAULT_COST_PER_MODEL_CALL, type ScanBudget } from "../core/budget";
+import type { RetentionPolicy } from "../core/retention";
 
 export interface ReviewHistoryEntry {
   timestamp: string;
@@ -9,38 +14,129 @@ export interface ReviewHistoryEntry {
 
 interface StoreSchema {
   openrouterApiKey: string;
+  visionProvider: VisionProviderId;
+  visionModel: string;
+  visionBaseUrl: string;
+  classifyConcurrency: number;
+  scanBudget: ScanBudget;
+  retention: RetentionPolicy;
+  // IANA name for day folders and capture times; blank follows the system
+  timeZone: string;
   licenseKey: string;
   lastScanTime: string;
   lastEventCount: number;
   lastStoryCount: number;
+  lastCacheHits: number;
   lastError: string;
+  // Pre-profiles hidden list; copied into the default profile on first run
   hiddenAccounts: string[];
+  profiles: Profile[];
+  activeProfile: string;
+  autoScanAllProfiles: boolean;
+  // Pre-library review lists; imported into library.db on first run
   reviewedEvents: string[];
   rejectedEvents: string[];
   soonlistUsername: string;
   onboardingComplete: boolean;
   autoScanEnabled: boolean;
   lastAutoScanTime: number;
+  // Still true at launch if the last scan never finished (crash, quit, sleep)
+  scanInterrupted: boolean;
+  debugMode: boolean;
+  lastFailureDir: string;
+  // Accounts scanned directly, without walking the feed tray
+  watchlist: string[];
+  watchlistHighlights: boolean;
+  autoScanWatchlist: boolean;
+  lastWatchlistScanTime: number;
   reviewHistory: ReviewHistoryEntry[];
 }
 
 const store = new Store<StoreSchema>({
   defaults: {
     openrouterApiKey: "",
+    visionProvider: "openrouter",
+    visionModel: "",
+    visionBaseUrl: "",
+    classifyConcurrency: DEFAULT_CLASSIFY_CONCURRENCY,
+    scanBudget: { perScan: {}, perDay: {}, costPerModelCall: DEFAULT_COST_PER_MODEL_CALL },
+    retention: {},
+    timeZone: "",
     licenseKey: "",
     lastScanTime: "",
     lastEventCount: 0,
     lastStoryCount: 0,
+    lastCacheHits: 0,
     lastError: "",
     hiddenAccounts: [],
+    profiles: [],
+    activeProfile: DEFAULT_PROFILE_ID,
+    autoScanAllProfiles: false,
     reviewedEvents: [],
     rejectedEvents: [],
     soonlistUsername: "",
     onboardingComplete: false,
     autoScanEnabled: true,
     lastAutoScanTime: 0,
+    scanInterrupted: false,
+    debugMode: false,
+    lastFailureDir: "",
+    watchlist: [],
+    watchlistHighlights: false,
+    autoScanWatchlist: false,
+    lastWatchlistScanTime: 0,
     reviewHistory: [],
   },
 });
 
+export function getProfiles(): Profile[] {
+  const profiles = store.get("profiles");
+  if (profiles.length > 0) return profiles;
+
+  const migrated: Profile[] = [
+    {
+      id: DEFAULT_PROFILE_ID,
+      name: "Default",
+      hiddenAccounts: store.get("hiddenAccounts") || [],
+      sessionProblem: "",
+    },
+  ];
+  store.set("profiles", migrated);
+  return migrated;
+}
+
+export function getActiveProfile(): Profile {
+  const profiles = getProfiles();
+  return profiles.find((p) => p.id === store.get("activeProfile")) ?? profiles[0]!;
+}
+
+export function updateProfile(id: string, changes: Partial<Omit<Profile, "id">>): void {
+  store.set(
+    "profiles",
+    getProfiles().map((p) => (p.id === id ? { ...p, ...changes } : p))
+  );
+}
+
+// Ids are never reused, so nothing left over from a removed profile can
+// attach itself to a new one
+export function addProfile(name: string): Profile {
+  const profiles = getProfiles();
+  const profile: Profile = { id: `profile-${Date.now().toString(36)}`, name, hiddenAccounts: [], sessionProblem: "" };
+  store.set("profiles", [...profiles, profile]);
+  return profile;
+}
+
+export function removeProfile(id: string): void {
+  if (id === DEFAULT_PROFILE_ID) return;
+  store.set("profiles", getProfiles().filter((p) => p.id !== id));
+}
+
+export function getHiddenAccounts(): string[] {
+  return getActiveProfile().hiddenAccounts;
+}
+
+export function setHiddenAccounts(hiddenAccounts: string[]): void {
+  updateProfile(getActiveProfile().id, { hiddenAccounts });
+}
+
 export default store;
@@ -12,23 +12,74 @@ import {
 } from "electron";
 import { join, basename } from "path";
 import { existsSync, copyFileSync, mkdirSync } from "fs";
+import { rm } from "fs/promises";
 import { execSync } from "child_process";
-import store, { type ReviewHistoryEntry } from "./store";
-import { runScraper, type ScanResult } from "../core/scraper";
+import store, {
+  type ReviewHistoryEntry,
+  getProfiles,
+  getActiveProfile,
+  updateProfile,
+  addProfile,
+  removeProfile,
+  getHiddenAccounts,
+  setHiddenAccounts,
+} from "./store";
+import { runScraper, createPauseControl, type ScanResult, type PauseControl } from "../core/scraper";
 import { runSetup } from "../core/setup";
-import { getEventsDir, getSessionPath, scanAccountImages } from "../core/utils";
+import { formatProgressEvent, type ScanProgressEvent } from "../core/progress";
+import { isSessionProblem } from "../core/session";
+import { formatBudgetLimit, type BudgetCaps, type ScanBudget } from "../core/budget";
+import { applyRetention, formatRetentionPlan, planRetention, type RetentionPolicy } from "../core/retention";
+import {
+  getEventsDir,
+  getSessionPath,
+  getProfileDir,
+  getTimeZone,
+  isValidTimeZone,
+  setActiveProfile,
+  DEFAULT_PROFILE_ID,
+} from "../core/utils";
+import { groupDuplicates } from "../core/dedupe";
+import {
+  archiveReviewDecisions,
+  clearReviewDecisions,
+  closeLibrary,
+  getAccountEventKeys,
+  getReviewDecisions,
+  migrateLibrary,
+  listAccounts,
+  listApprovedEvents,
+  listEvents,
+  listScans,
+  recordScanNewEvents,
+  setReviewDecision,
+  type LibraryEvent,
+  type ScanTrigger,
+} from "../core/library";
+import type { ExtractedEvent } from "../core/vision";
+import { isVisionProviderId, DEFAULT_MODELS, DEFAULT_BASE_URL } from "../core/providers";
 
 let tray: Tray | null = null;
 let isScanning = false;
+// Set while the active profile's library is being migrated; scans wait it out
+let isMigrating = false;
+let scanAbort: AbortController | null = null;
+let scanPause: PauseControl | null = null;
 let settingsWindow: BrowserWindow | null = null;
 let reviewWindow: BrowserWindow | null = null;
 let accountViewerWindow: BrowserWindow | null = null;
+let scanHistoryWindow: BrowserWindow | null = null;
 let onboardingWindow: BrowserWindow | null = null;
 let autoScanTimer: ReturnType<typeof setInterval> | null = null;
+let watchlistTimer: ReturnType<typeof setInterval> | null = null;
 
 const AUTO_SCAN_INTERVAL_MS = 4 * 60 * 60 * 1000; // 4 hours
 const AUTO_SCAN_MIN_GAP_MS = 3.5 * 60 * 60 * 1000; // 3.5 hours
 const IDLE_THRESHOLD_SECONDS = 1800; // 30 minutes
+const WATCHLIST_SCAN_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const WATCHLIST_SCAN_MIN_GAP_MS = 55 * 60 * 1000; // 55 minutes
+
+type ScanMode = "feed" | "watchlist";
 
 interface ScanProgress {
   phase: "idle" | "scanning" | "analyzing" | "error" | "done";
@@ -57,51 +108,38 @@ function setTrayStatus(text: string): void {
   }
 }
 
-function parseProgressMessage(msg: string): void {
-  // "Story 3: @username"
-  const storyMatch = msg.match(/^Story (\d+): @(.+)$/);
-  if (storyMatch) {
-    scanProgress.phase = "scanning";
-    scanProgress.currentStory = parseInt(storyMatch[1], 10);
-    scanProgress.currentUser = storyMatch[2];
-    scanProgress.message = msg;
-    updateMenu();
-    return;
-  }
-
-  // "  -> EVENT DETECTED! Saved"
-  if (msg.includes("EVENT DETECTED")) {
-    scanProgress.eventCount++;
-    scanProgress.phase = "scanning";
-    updateMenu();
-    return;
-  }
-
-  // "  -> Not an event" or "  -> Error checking story"
-  if (msg.startsWith("  ->")) {
-    // Keep scanning phase, no special update needed
-    return;
-  }
-
-  // "Navigating to Instagram..." / "Looking for stories..."
-  if (msg.includes("Navigating") || msg.includes("Looking for")) {
-    scanProgress.phase = "scanning";
-    scanProgress.message = msg;
-    return;
-  }
-
-  // "Done! Processed X stories, found Y events."
-  const doneMatch = msg.match(/^Done! Processed (\d+) stories, found (\d+) events/);
-  if (doneMatch) {
-    scanProgress.phase = "done";
-    scanProgress.currentStory = parseInt(doneMatch[1], 10);
-    scanProgress.totalStories = doneMatch[1];
-    scanProgress.eventCount = parseInt(doneMatch[2], 10);
-    return;
+function handleProgressEvent(event: ScanProgressEvent): void {
+  switch (event.type) {
+    case "navigating":
+      scanProgress.phase = "scanning";
+      scanProgress.message = formatProgressEvent(event);
+      return;
+    case "story-started":
+      scanProgress.phase = "scanning";
+      scanProgress.currentStory = event.index;
+      scanProgress.currentUser = event.username;
+      scanProgress.message = formatProgressEvent(event);
+      updateMenu();
+      return;
+    case "classified":
+      if (event.isEvent) {
+        scanProgress.eventCount++;
+        updateMenu();
+      }
+      return;
+    case "paused":
+    case "resumed":
+      updateMenu();
+      return;
+    case "done":
+      scanProgress.phase = event.reason === "failed" ? "error" : "done";
+      scanProgress.currentStory = event.result.storyCount;
+      scanProgress.totalStories = String(event.result.storyCount);
+      scanProgress.eventCount = event.result.eventCount;
+      return;
+    default:
+      scanProgress.message = formatProgressEvent(event);
   }
-
-  // Generic progress
-  scanProgress.message = msg;
 }
 
 function getTrayIcon(): string {
@@ -115,16 +153,26 @@ function buildMenu(): Menu {
   const lastScan = store.get("lastScanTime");
   const lastCount = store.get("lastEventCount");
   const lastStoryCount = store.get("lastStoryCount");
+  const lastCacheHits = store.get("lastCacheHits");
   const lastError = store.get("lastError");
   const hasSession = existsSync(getSessionPath());
+  const activeProfile = getActiveProfile();
+  const profiles = getProfiles();
+  const sessionProblem = activeProfile.sessionProblem;
 
-  const scanLabel = isScanning ? "Scanning..." : "Scan Stories Now";
+  const scanLabel = isScanning ? "Scanning..." : isMigrating ? "Updating library..." : "Scan Stories Now";
+  const canScan = !isScanning && !isMigrating && hasSession;
 
   const statusItems: Electron.MenuItemConstructorOptions[] = [];
 
   if (isScanning) {
     // Live progress during scan
-    if (scanProgress.currentUser) {
+    if (scanPause?.isPaused) {
+      statusItems.push({
+        label: "Paused",
+        enabled: false,
+      });
+    } else if (scanProgress.currentUser) {
       statusItems.push({
         label: `Scanning @${scanProgress.currentUser}...`,
         enabled: false,
@@ -147,7 +195,7 @@ function buildMenu(): Menu {
       enabled: false,
     });
     statusItems.push({
-      label: `Stories scanned: ${lastStoryCount}`,
+      label: `Stories scanned: ${lastStoryCount} (${lastCacheHits} cached)`,
       enabled: false,
     });
     statusItems.push({
@@ -162,6 +210,8 @@ function buildMenu(): Menu {
   }
 
   const autoScanEnabled = store.get("autoScanEnabled");
+  const watchlist = store.get("watchlist");
+  const lastFailureDir = store.get("lastFailureDir");
 
   const autoScanItems: Electron.MenuItemConstructorOptions[] = [
     {
@@ -181,24 +231,100 @@ function buildMenu(): Menu {
     },
   ];
 
+  if (autoScanEnabled && profiles.length > 1) {
+    autoScanItems.push({
+      label: "Include All Profiles",
+      type: "checkbox",
+      checked: store.get("autoScanAllProfiles"),
+      click: () => {
+        store.set("autoScanAllProfiles", !store.get("autoScanAllProfiles"));
+        updateMenu();
+      },
+    });
+  }
+
+  if (autoScanEnabled && watchlist.length > 0) {
+    autoScanItems.push({
+      label: "Scan Watchlist Every Hour",
+      type: "checkbox",
+      checked: store.get("autoScanWatchlist"),
+      click: () => {
+        store.set("autoScanWatchlist", !store.get("autoScanWatchlist"));
+        updateMenu();
+      },
+    });
+  }
+
   if (autoScanEnabled) {
     autoScanItems.push({
-      label: getNextAutoScanLabel(),
+      label: sessionProblem ? "Paused until you log in again" : getNextAutoScanLabel(),
       enabled: false,
     });
   }
 
+  const profileItems: Electron.MenuItemConstructorOptions[] = [
+    ...profiles.map((profile): Electron.MenuItemConstructorOptions => ({
+      label: profile.sessionProblem ? `${profile.name} (login needed)` : profile.name,
+      type: "radio",
+      checked: profile.id === activeProfile.id,
+      enabled: !isScanning && !isMigrating,
+      click: () => switchProfile(profile.id),
+    })),
+    { type: "separator" },
+    {
+      label: "Add Profile...",
+      enabled: !isScanning && !isMigrating,
+      click: handleAddProfile,
+    },
+    {
+      label: `Remove "${activeProfile.name}"...`,
+      enabled: !isScanning && !isMigrating && activeProfile.id !== DEFAULT_PROFILE_ID,
+      click: handleRemoveProfile,
+    },
+  ];
+
+  const scanControlItems: Electron.MenuItemConstructorOptions[] = [];
+  if (isScanning) {
+    scanControlItems.push(
+      {
+        label: scanPause?.isPaused ? "Resume Scan" : "Pause Scan",
+        enabled: !scanAbort?.signal.aborted,
+        click: handleTogglePause,
+      },
+      {
+        label: scanAbort?.signal.aborted ? "Stopping..." : "Stop Scan",
+        enabled: !scanAbort?.signal.aborted,
+        click: handleStopScan,
+      }
+    );
+  }
+
   return Menu.buildFromTemplate([
     {
       label: scanLabel,
-      enabled: !isScanning && hasSession,
-      click: handleScan,
+      enabled: canScan,
+      click: () => handleScan(),
     },
+    ...(watchlist.length > 0
+      ? [
+          {
+            label: `Scan Watchlist Now (${watchlist.length})`,
+            enabled: canScan,
+            click: () => handleScan("watchlist"),
+          },
+        ]
+      : []),
+    ...scanControlItems,
     { type: "separator" },
     ...statusItems,
     { type: "separator" },
     ...autoScanItems,
     { type: "separator" },
+    {
+      label: `Profile: ${activeProfile.name}`,
+      submenu: profileItems,
+    },
+    { type: "separator" },
     {
       label: "View Accounts",
       click: handleAccountViewer,
@@ -207,6 +333,10 @@ function buildMenu(): Menu {
       label: "Review Events",
       click: openReviewWindow,
     },
+    {
+      label: "Scan History",
+      click: handleScanHistory,
+    },
     {
       label: "View Events Folder",
       click: () => {
@@ -214,9 +344,30 @@ function buildMenu(): Menu {
         shell.openPath(eventsDir);
       },
     },
+    ...(lastFailureDir && existsSync(lastFailureDir)
+      ? [
+          {
+            label: "Reveal Last Failure",
+            click: () => shell.showItemInFolder(lastFailureDir),
+          },
+        ]
+      : []),
+    {
+      label: "Debug Mode",
+      type: "checkbox",
+      checked: store.get("debugMode"),
+      click: () => {
+        store.set("debugMode", !store.get("debugMode"));
+        updateMenu();
+      },
+    },
     { type: "separator" },
     {
-      label: hasSession ? "Re-login to Instagram" : "Login to Instagram",
+      label: sessionProblem
+        ? "Log In Again (session expired)"
+        : hasSession
+          ? "Re-login to Instagram"
+          : "Login to Instagram",
       click: handleLogin,
     },
     {
@@ -237,25 +388,82 @@ function updateMenu(): void {
   }
 }
 
-function saveReviewHistory(): void {
-  const reviewedKeys: string[] = store.get("reviewedEvents") || [];
-  const rejectedKeys: string[] = store.get("rejectedEvents") || [];
+// Only OpenRouter needs a key; local endpoints and the mock provider run without one
+function needsApiKey(): boolean {
+  return store.get("visionProvider") === "openrouter" && !store.get("openrouterApiKey");
+}
 
-  if (reviewedKeys.length === 0 && rejectedKeys.length === 0) return;
+// Blank or non-positive fields mean no limit
+function parseBudgetCaps(raw: unknown): BudgetCaps {
+  const fields = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const cap = (value: unknown) => {
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+  };
+  return { maxStories: cap(fields.maxStories), maxMinutes: cap(fields.maxMinutes), maxSpend: cap(fields.maxSpend) };
+}
+
+function parseRetentionPolicy(raw: Record<string, unknown>): RetentionPolicy {
+  const rule = (value: unknown) => {
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+  };
+  return {
+    deleteRejectedAfterDays: rule(raw.deleteRejectedAfterDays),
+    archiveAfterDays: rule(raw.archiveAfterDays),
+    maxLibraryMB: rule(raw.maxLibraryMB),
+  };
+}
 
-  // Extract unique account names from keys (format: "2026-02-08/username_14-30-00.png")
-  const accounts = new Set<string>();
-  for (const key of [...reviewedKeys, ...rejectedKeys]) {
-    const filename = key.split("/").pop() || "";
-    const match = filename.match(/^(.+?)_\d/);
-    if (match) accounts.add(match[1]);
+// Runs after every scan. A failure here shouldn't turn a good scan into an error.
+async function runRetention(): Promise<void> {
+  try {
+    const plan = await applyRetention(store.get("retention"));
+    if (plan.items.length === 0) return;
+    console.log(`Cleanup removed ${plan.items.length} event${plan.items.length !== 1 ? "s" : ""} from the library`);
+    if (reviewWindow && !reviewWindow.isDestroyed()) {
+      reviewWindow.webContents.executeJavaScript("load()");
+    }
+  } catch (err) {
+    console.error("Retention failed:", err);
   }
+}
+
+function parseScanBudget(raw: Record<string, unknown>): ScanBudget {
+  const cost = raw.costPerModelCall === "" ? NaN : Number(raw.costPerModelCall);
+  return {
+    perScan: parseBudgetCaps(raw.perScan),
+    perDay: parseBudgetCaps(raw.perDay),
+    costPerModelCall: Number.isFinite(cost) && cost >= 0 ? cost : store.get("scanBudget").costPerModelCall,
+  };
+}
+
+// Accepts handles, @handles or profile URLs, one per line or comma-separated
+function parseWatchlist(text: string): string[] {
+  const handles = text
+    .split(/[\s,]+/)
+    .map((entry) =>
+      entry
+        .replace(/^https?:\/\/(www\.)?instagram\.com\//i, "")
+        .replace(/^@/, "")
+        .replace(/\/.*$/, "")
+        .toLowerCase()
+    )
+    .filter((handle) => /^[a-z0-9._]+$/.test(handle));
+  return Array.from(new Set(handles));
+}
 
+function saveReviewHistory(): void {
+  const decisions = getReviewDecisions();
+  if (decisions.size === 0) return;
+
+  const decided = listEvents().filter((e) => decisions.has(e.key));
+  const decisionValues = Array.from(decisions.values());
   const entry: ReviewHistoryEntry = {
     timestamp: new Date().toISOString(),
-    accounts: Array.from(accounts),
-    approvedCount: reviewedKeys.length,
-    rejectedCount: rejectedKeys.length,
+    accounts: Array.from(new Set(decided.map((e) => e.username))),
+    approvedCount: decisionValues.filter((d) => d === "approved").length,
+    rejectedCount: decisionValues.filter((d) => d === "rejected").length,
   };
 
   const history: ReviewHistoryEntry[] = store.get("reviewHistory") || [];
@@ -263,11 +471,120 @@ function saveReviewHistory(): void {
   store.set("reviewHistory", history);
 }
 
-async function handleScan(): Promise<void> {
+/**
+ * Runs the library's one-off migrations for the active profile. Hidden
+ * accounts saved under a mangled name follow the account to its real handle.
+ * Scans are refused until it finishes.
+ */
+export async function migrateActiveLibrary(): Promise<void> {
+  const profile = getActiveProfile();
+  isMigrating = true;
+  updateMenu();
+  try {
+    const renamed = await migrateLibrary([...profile.hiddenAccounts, ...store.get("watchlist")]);
+    const current = getProfiles().find((p) => p.id === profile.id);
+    if (renamed.size > 0 && current) {
+      const hiddenAccounts = current.hiddenAccounts.map((a) => renamed.get(a) ?? a);
+      updateProfile(profile.id, { hiddenAccounts: Array.from(new Set(hiddenAccounts)) });
+    }
+  } catch (err) {
+    console.error("Could not migrate the event library:", err);
+  } finally {
+    isMigrating = false;
+    updateMenu();
+  }
+}
+
+async function switchProfile(profileId: string): Promise<void> {
+  store.set("activeProfile", profileId);
+  setActiveProfile(profileId);
+  mkdirSync(getEventsDir(), { recursive: true });
+  await migrateActiveLibrary();
+
+  // Open windows show the previous profile's library until reloaded
+  if (reviewWindow && !reviewWindow.isDestroyed()) {
+    reviewWindow.webContents.executeJavaScript("load()");
+  }
+  if (accountViewerWindow && !accountViewerWindow.isDestroyed()) {
+    accountViewerWindow.webContents.executeJavaScript("loadAccounts()");
+  }
+  if (scanHistoryWindow && !scanHistoryWindow.isDestroyed()) {
+    scanHistoryWindow.webContents.executeJavaScript("load()");
+  }
+  updateMenu();
+}
+
+async function handleAddProfile(): Promise<void> {
   if (isScanning) return;
+  const previousId = getActiveProfile().id;
+  const profile = addProfile(`Profile ${getProfiles().length + 1}`);
+  await switchProfile(profile.id);
+
+  try {
+    const username = await runSetup();
+    if (username) {
+      updateProfile(profile.id, { name: `@${username}` });
+    }
+    new Notification({
+      title: "Profile Added",
+      body: `Scene Scout is now scanning as ${getActiveProfile().name}.`,
+    }).show();
+    updateMenu();
+  } catch (err) {
+    removeProfile(profile.id);
+    await switchProfile(previousId);
+    dialog.showErrorBox("Login Error", `Failed to add profile: ${err}`);
+  }
+}
+
+async function handleRemoveProfile(): Promise<void> {
+  const profile = getActiveProfile();
+  if (isScanning || profile.id === DEFAULT_PROFILE_ID) return;
+
+  const { response } = await dialog.showMessageBox({
+    type: "warning",
+    title: "Remove Profile",
+    message: `Remove ${profile.name}?`,
+    detail: "Its Instagram session and saved events will be deleted.",
+    buttons: ["Remove", "Cancel"],
+    defaultId: 1,
+    cancelId: 1,
+  });
+  if (response !== 0) return;
+
+  try {
+    const profileDir = getProfileDir(profile.id);
+    removeProfile(profile.id);
+    await switchProfile(DEFAULT_PROFILE_ID);
+    closeLibrary(profile.id);
+    await rm(profileDir, { recursive: true, force: true });
+  } catch (err) {
+    dialog.showErrorBox("Remove Profile", `Could not delete the profile's files: ${err}`);
+  }
+}
+
+function handleTogglePause(): void {
+  if (!scanPause) return;
+  if (scanPause.isPaused) {
+    scanPause.resume();
+    setTrayStatus("●");
+  } else {
+    scanPause.pause();
+    setTrayStatus("❚❚");
+  }
+  updateMenu();
+}
+
+function handleStopScan(): void {
+  if (!scanAbort) return;
+  scanAbort.abort();
+  updateMenu();
+}
+
+async function handleScan(mode: ScanMode = "feed", trigger: ScanTrigger = "manual"): Promise<void> {
+  if (isScanning || isMigrating) return;
 
-  const apiKey = store.get("openrouterApiKey");
-  if (!apiKey) {
+  if (needsApiKey()) {
     dialog.showErrorBox(
       "API Key Required",
       "Please set your OpenRouter API key in Settings first."
@@ -276,19 +593,10 @@ async function handleScan(): Promise<void> {
   }
 
   // Set API key in env for the AI SDK
-  process.env.OPENROUTER_API_KEY = apiKey;
+  process.env.OPENROUTER_API_KEY = store.get("openrouterApiKey");
 
   // Snapshot known event keys before scanning
-  const reviewedBefore = new Set(store.get("reviewedEvents") || []);
-  const rejectedBefore = new Set(store.get("rejectedEvents") || []);
-  const accountsBefore = await scanAccountImages();
-  const knownKeysBefore = new Set<string>();
-  const eventsDir = getEventsDir();
-  for (const images of Object.values(accountsBefore)) {
-    for (const img of images) {
-      knownKeysBefore.add(img.path.substring(eventsDir.length + 1));
-    }
-  }
+  const knownKeysBefore = new Set(listEvents().map((e) => e.key));
 
   // Reset progress state
   scanProgress = {
@@ -301,18 +609,64 @@ async function handleScan(): Promise<void> {
   };
 
   isScanning = true;
+  store.set("scanInterrupted", true);
+  scanAbort = new AbortController();
+  scanPause = createPauseControl();
   store.set("lastError", "");
   setTrayStatus("●");
   updateMenu();
 
   try {
-    const hiddenAccounts = store.get("hiddenAccounts") || [];
-    const result: ScanResult = await runScraper((msg) => {
-      console.log(msg);
-      parseProgressMessage(msg);
-    }, hiddenAccounts);
+    const hiddenAccounts = getHiddenAccounts();
+    const result: ScanResult = await runScraper(
+      (event) => {
+        console.log(formatProgressEvent(event));
+        handleProgressEvent(event);
+      },
+      hiddenAccounts,
+      {
+        signal: scanAbort.signal,
+        pauseControl: scanPause,
+        concurrency: store.get("classifyConcurrency"),
+        accounts: mode === "watchlist" ? store.get("watchlist") : undefined,
+        highlights: store.get("watchlistHighlights"),
+        debug: store.get("debugMode"),
+        budget: store.get("scanBudget"),
+        trigger,
+      }
+    );
 
-    if (result.error) {
+    // Count genuinely new events: groups where every copy is new, so a
+    // re-capture or repost of a known flyer doesn't count again
+    const groupsAfter = groupDuplicates(listEvents());
+    let newEventCount = 0;
+    for (const group of groupsAfter) {
+      const members = [group.canonical, ...group.duplicates];
+      if (members.every((m) => !knownKeysBefore.has(m.key))) {
+        newEventCount++;
+      }
+    }
+    if (result.scanId !== undefined) recordScanNewEvents(result.scanId, newEventCount);
+
+    if (result.failureDir) {
+      store.set("lastFailureDir", result.failureDir);
+    }
+
+    if (isSessionProblem(result.errorCode)) {
+      // Auto-scan stays paused until a fresh login clears this
+      const profile = getActiveProfile();
+      updateProfile(profile.id, { sessionProblem: result.errorCode });
+      store.set("lastError", result.error || "Instagram session expired.");
+      const notif = new Notification({
+        title: getProfiles().length > 1 ? `Instagram Login Needed (${profile.name})` : "Instagram Login Needed",
+        body: `${result.error} Click to log in again.`,
+      });
+      notif.on("click", async () => {
+        await switchProfile(profile.id);
+        handleLogin();
+      });
+      notif.show();
+    } else if (result.error) {
       store.set("lastError", result.error);
       const notif = new Notification({
         title: "Scan Failed",
@@ -325,29 +679,21 @@ async function handleScan(): Promise<void> {
         hour: "2-digit",
         minute: "2-digit",
       });
-      store.set("lastScanTime", timeStr);
+      store.set(
+        "lastScanTime",
+        result.stopped ? `${timeStr} (stopped)` : result.limitReached ? `${timeStr} (limit reached)` : timeStr
+      );
       store.set("lastEventCount", result.eventCount);
       store.set("lastStoryCount", result.storyCount);
+      store.set("lastCacheHits", result.cacheHits);
       store.set("lastError", "");
-      store.set("lastAutoScanTime", Date.now());
-
-      // Count genuinely new events (not previously known or reviewed/rejected)
-      const accountsAfter = await scanAccountImages();
-      let newEventCount = 0;
-      for (const images of Object.values(accountsAfter)) {
-        for (const img of images) {
-          const key = img.path.substring(eventsDir.length + 1);
-          if (!knownKeysBefore.has(key) && !reviewedBefore.has(key) && !rejectedBefore.has(key)) {
-            newEventCount++;
-          }
-        }
-      }
+      // A watchlist scan covers a few accounts, so it doesn't stand in for a full one
+      store.set(mode === "watchlist" ? "lastWatchlistScanTime" : "lastAutoScanTime", Date.now());
 
       if (newEventCount > 0) {
         // Save current review session to history and reset for the new batch
         saveReviewHistory();
-        store.set("reviewedEvents", []);
-        store.set("rejectedEvents", []);
+        archiveReviewDecisions();
 
         // Reload review window if open
         if (reviewWindow && !reviewWindow.isDestroyed()) {
@@ -360,21 +706,43 @@ async function handleScan(): Promise<void> {
         });
         notif.on("click", () => { openReviewWindow(); });
         notif.show();
+      } else if (result.stopped) {
+        new Notification({
+          title: "Scan Stopped",
+          body: `Stopped after ${result.storyCount} stories. ${result.eventCount} event${result.eventCount !== 1 ? "s" : ""} saved.`,
+        }).show();
+      } else if (result.limitReached) {
+        new Notification({
+          title: "Scan Limit Reached",
+          body: `Stopped at the ${formatBudgetLimit(result.limitReached)} after ${result.storyCount} stories. ${result.eventCount} event${result.eventCount !== 1 ? "s" : ""} saved.`,
+        }).show();
       } else if (result.eventCount > 0) {
         const notif = new Notification({
           title: "Scan Complete",
-          body: `No new events (${result.eventCount} total in ${result.storyCount} stories).`,
+          body: `No new events (${result.eventCount} total in ${result.storyCount} stories, ${result.cacheHits} cached, ${result.alreadySeen} seen before).`,
         });
         notif.on("click", () => { openReviewWindow(); });
         notif.show();
       } else {
         const notif = new Notification({
           title: "Scan Complete",
-          body: `No events found in ${result.storyCount} stories.`,
+          body: `No events found in ${result.storyCount} new stories (${result.alreadySeen} seen before).`,
         });
         notif.show();
       }
     }
+
+    await runRetention();
+
+    if (result.diagnosticReport) {
+      const report = result.diagnosticReport;
+      const notif = new Notification({
+        title: "Instagram's Layout May Have Changed",
+        body: "Some page elements couldn't be found. Click to see the report.",
+      });
+      notif.on("click", () => { shell.showItemInFolder(report); });
+      notif.show();
+    }
   } catch (err) {
     const errorMsg = `${err}`;
     store.set("lastError", errorMsg);
@@ -384,15 +752,23 @@ async function handleScan(): Promise<void> {
     }).show();
   } finally {
     isScanning = false;
+    store.set("scanInterrupted", false);
+    scanAbort = null;
+    scanPause = null;
     scanProgress.phase = "idle";
     setTrayStatus("");
     updateMenu();
+    if (scanHistoryWindow && !scanHistoryWindow.isDestroyed()) {
+      scanHistoryWindow.webContents.executeJavaScript("load()");
+    }
   }
 }
 
 async function handleLogin(): Promise<void> {
   try {
     await runSetup();
+    updateProfile(getActiveProfile().id, { sessionProblem: "" });
+    store.set("lastError", "");
     new Notification({
       title: "Login Successful",
       body: "Instagram session saved. You can now scan stories.",
@@ -404,18 +780,12 @@ async function handleLogin(): Promise<void> {
 }
 
 async function handleCopyAndOpenSoonlist(): Promise<void> {
-  const reviewedKeys: string[] = store.get("reviewedEvents") || [];
-  const eventsDir = getEventsDir();
   const username = store.get("soonlistUsername");
 
   // Collect existing reviewed event file paths
-  const filePaths: string[] = [];
-  for (const key of reviewedKeys) {
-    const srcPath = join(eventsDir, key);
-    if (existsSync(srcPath)) {
-      filePaths.push(srcPath);
-    }
-  }
+  const filePaths = listApprovedEvents()
+    .map((e) => e.path)
+    .filter((path) => existsSync(path));
 
   if (filePaths.length === 0) {
     dialog.showErrorBox("No Events", "No reviewed event images found to copy.");
@@ -470,7 +840,7 @@ function handleSettings(): void {
 
   settingsWindow = new BrowserWindow({
     width: 480,
-    height: 440,
+    height: 1040,
     resizable: false,
     title: "Settings",
     backgroundColor: "#f7f7f7",
@@ -489,19 +859,65 @@ function handleSettings(): void {
     if (typeof settings.soonlistUsername === "string") {
       store.set("soonlistUsername", settings.soonlistUsername.trim());
     }
+    if (isVisionProviderId(settings.visionProvider)) {
+      store.set("visionProvider", settings.visionProvider);
+    }
+    if (typeof settings.visionModel === "string") {
+      store.set("visionModel", settings.visionModel.trim());
+    }
+    if (typeof settings.visionBaseUrl === "string") {
+      store.set("visionBaseUrl", settings.visionBaseUrl.trim());
+    }
+    if (typeof settings.classifyConcurrency === "number" && Number.isInteger(settings.classifyConcurrency)) {
+      store.set("classifyConcurrency", Math.min(8, Math.max(1, settings.classifyConcurrency)));
+    }
+    if (typeof settings.watchlist === "string") {
+      store.set("watchlist", parseWatchlist(settings.watchlist));
+    }
+    if (typeof settings.watchlistHighlights === "boolean") {
+      store.set("watchlistHighlights", settings.watchlistHighlights);
+    }
+    if (settings.scanBudget && typeof settings.scanBudget === "object") {
+      store.set("scanBudget", parseScanBudget(settings.scanBudget as Record<string, unknown>));
+    }
+    if (settings.retention && typeof settings.retention === "object") {
+      store.set("retention", parseRetentionPolicy(settings.retention as Record<string, unknown>));
+    }
+    if (typeof settings.timeZone === "string") {
+      const timeZone = settings.timeZone.trim();
+      if (!timeZone || isValidTimeZone(timeZone)) store.set("timeZone", timeZone);
+    }
     settingsWindow?.close();
     updateMenu();
   };
   ipcMain.handle("save-settings", handler);
+  ipcMain.handle("preview-retention", async (_event, policy: Record<string, unknown>) =>
+    formatRetentionPlan(await planRetention(parseRetentionPolicy(policy)))
+  );
 
   // Clean up handler when window closes
   settingsWindow.on("closed", () => {
     ipcMain.removeHandler("save-settings");
+    ipcMain.removeHandler("preview-retention");
     settingsWindow = null;
   });
 
   const currentKey = store.get("openrouterApiKey") || "";
   const currentUsername = store.get("soonlistUsername") || "";
+  const currentProvider = store.get("visionProvider") || "openrouter";
+  const currentModel = store.get("visionModel") || "";
+  const currentBaseUrl = store.get("visionBaseUrl") || "";
+  const currentConcurrency = store.get("classifyConcurrency");
+  const currentWatchlist = store.get("watchlist").join("\n");
+  const currentHighlights = store.get("watchlistHighlights");
+  const budget = store.get("scanBudget");
+  const capValue = (value: number | undefined) => (value ? String(value) : "");
+  const retention = store.get("retention");
+  const currentTimeZone = store.get("timeZone");
+  const systemTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const timeZoneOptions = Intl.supportedValuesOf("timeZone")
+    .map((tz) => `<option value="${tz}"></option>`)
+    .join("");
   const html = `
     <!DOCTYPE html>
     <html>
@@ -532,7 +948,7 @@ function handleSettings(): void {
           color: #627296;
           margin-bottom: 10px;
         }
-        input {
+        input, select, textarea {
           width: 100%;
           padding: 12px 14px;
           border: 1px solid #dce0e8;
@@ -543,7 +959,10 @@ function handleSettings(): void {
           font-size: 14px;
           transition: border-color 0.25s, box-shadow 0.25s;
         }
-        input:focus {
+        textarea { resize: vertical; }
+        .checkbox { display: flex; align-items: center; gap: 8px; margin-top: 12px; text-transform: none; letter-spacing: 0; font-size: 13px; color: #162135; }
+        .checkbox input { width: auto; }
+        input:focus, select:focus, textarea:focus {
           outline: none;
           border-color: #5a32fb;
           box-shadow: 0 0 0 3px rgba(90, 50, 251, 0.15);
@@ -555,6 +974,9 @@ function handleSettings(): void {
           margin-top: 10px;
           margin-bottom: 32px;
         }
+        .hidden { display: none; }
+        .caps { display: grid; grid-template-columns: 1fr 1fr 1fr; gap: 8px; margin-bottom: 12px; }
+        .caps span { display: block; font-size: 12px; color: #627296; margin-bottom: 4px; }
         button {
           background: #5a32fb;
           color: #ffffff;
@@ -574,19 +996,117 @@ function handleSettings(): void {
     </head>
     <body>
       <h2>Settings</h2>
-      <label for="apiKey">OpenRouter API Key</label>
-      <input type="password" id="apiKey" value="${currentKey}" placeholder="sk-or-..." />
-      <p class="hint">Get a key at openrouter.ai</p>
+      <label for="provider">Vision Provider</label>
+      <select id="provider" onchange="updateFields()">
+        <option value="openrouter"${currentProvider === "openrouter" ? " selected" : ""}>OpenRouter</option>
+        <option value="openai-compatible"${currentProvider === "openai-compatible" ? " selected" : ""}>Local (OpenAI-compatible)</option>
+        <option value="mock"${currentProvider === "mock" ? " selected" : ""}>Mock (offline testing)</option>
+      </select>
+      <p class="hint">Local works with Ollama, llama.cpp server and LM Studio</p>
+      <div id="apiKeyField">
+        <label for="apiKey">OpenRouter API Key</label>
+        <input type="password" id="apiKey" value="${currentKey}" placeholder="sk-or-..." />
+        <p class="hint">Get a key at openrouter.ai</p>
+      </div>
+      <div id="baseUrlField">
+        <label for="baseUrl">Base URL</label>
+        <input type="text" id="baseUrl" value="${currentBaseUrl}" placeholder="${DEFAULT_BASE_URL}" />
+        <p class="hint">The server's OpenAI-compatible /v1 endpoint</p>
+      </div>
+      <label for="model">Model</label>
+      <input type="text" id="model" value="${currentModel}" />
+      <p class="hint">Leave blank for the provider default</p>
+      <label for="concurrency">Parallel Classifications</label>
+      <input type="number" id="concurrency" min="1" max="8" value="${currentConcurrency}" />
+      <p class="hint">Stories sent to the model at once. Use 1 for a single local GPU.</p>
+      <label for="watchlist">Watchlist</label>
+      <textarea id="watchlist" rows="4" placeholder="venue.name&#10;promoter_handle">${currentWatchlist}</textarea>
+      <label class="checkbox"><input type="checkbox" id="watchlistHighlights"${currentHighlights ? " checked" : ""} /> Also check their highlights for new frames</label>
+      <p class="hint">One account per line. "Scan Watchlist Now" opens just these accounts' stories.</p>
+      <label>Limits Per Scan</label>
+      <div class="caps">
+        <div><span>Stories</span><input type="number" id="scanStories" min="0" value="${capValue(budget.perScan?.maxStories)}" placeholder="No limit" /></div>
+        <div><span>Minutes</span><input type="number" id="scanMinutes" min="0" value="${capValue(budget.perScan?.maxMinutes)}" placeholder="No limit" /></div>
+        <div><span>Spend ($)</span><input type="number" id="scanSpend" min="0" step="0.01" value="${capValue(budget.perScan?.maxSpend)}" placeholder="No limit" /></div>
+      </div>
+      <label>Limits Per Day</label>
+      <div class="caps">
+        <div><span>Stories</span><input type="number" id="dayStories" min="0" value="${capValue(budget.perDay?.maxStories)}" placeholder="No limit" /></div>
+        <div><span>Minutes</span><input type="number" id="dayMinutes" min="0" value="${capValue(budget.perDay?.maxMinutes)}" placeholder="No limit" /></div>
+        <div><span>Spend ($)</span><input type="number" id="daySpend" min="0" step="0.01" value="${capValue(budget.perDay?.maxSpend)}" placeholder="No limit" /></div>
+      </div>
+      <label for="costPerCall">Estimated Cost Per Model Call ($)</label>
+      <input type="number" id="costPerCall" min="0" step="0.0001" value="${budget.costPerModelCall ?? 0}" />
+      <p class="hint">A scan stops after the story it's on when it reaches a limit. Use 0 for a local model.</p>
+      <label>Library Cleanup</label>
+      <div class="caps">
+        <div><span>Delete rejected (days)</span><input type="number" id="deleteRejectedAfterDays" min="0" value="${capValue(retention.deleteRejectedAfterDays)}" placeholder="Never" oninput="previewRetention()" /></div>
+        <div><span>Archive after (days)</span><input type="number" id="archiveAfterDays" min="0" value="${capValue(retention.archiveAfterDays)}" placeholder="Never" oninput="previewRetention()" /></div>
+        <div><span>Max size (MB)</span><input type="number" id="maxLibraryMB" min="0" value="${capValue(retention.maxLibraryMB)}" placeholder="No limit" oninput="previewRetention()" /></div>
+      </div>
+      <p class="hint">Runs after each scan. Archived events move to the archive folder; the oldest are deleted past the size limit. Approved events waiting for export are kept.<br /><span id="retentionPreview"></span></p>
+      <label for="timeZone">Timezone</label>
+      <input type="text" id="timeZone" list="timeZones" value="${currentTimeZone}" placeholder="${systemTimeZone}" />
+      <datalist id="timeZones">${timeZoneOptions}</datalist>
+      <p class="hint">Events are filed under the day they were seen in this timezone. Leave blank to follow the system's.</p>
       <label for="soonlistUser">Soonlist Username</label>
       <input type="text" id="soonlistUser" value="${currentUsername}" placeholder="your-username" />
       <p class="hint">Your username on soonlist.com</p>
       <button onclick="save()">Save</button>
       <script>
+        const defaultModels = ${JSON.stringify(DEFAULT_MODELS)};
+
+        function updateFields() {
+          const provider = document.getElementById('provider').value;
+          document.getElementById('apiKeyField').classList.toggle('hidden', provider !== 'openrouter');
+          document.getElementById('baseUrlField').classList.toggle('hidden', provider !== 'openai-compatible');
+          document.getElementById('model').placeholder = defaultModels[provider];
+        }
+
         function save() {
           const key = document.getElementById('apiKey').value;
           const username = document.getElementById('soonlistUser').value;
-          window.electronAPI.saveSettings({ openrouterApiKey: key, soonlistUsername: username });
+          window.electronAPI.saveSettings({
+            openrouterApiKey: key,
+            soonlistUsername: username,
+            visionProvider: document.getElementById('provider').value,
+            visionModel: document.getElementById('model').value,
+            visionBaseUrl: document.getElementById('baseUrl').value,
+            classifyConcurrency: parseInt(document.getElementById('concurrency').value, 10),
+            watchlist: document.getElementById('watchlist').value,
+            watchlistHighlights: document.getElementById('watchlistHighlights').checked,
+            scanBudget: {
+              perScan: {
+                maxStories: document.getElementById('scanStories').value,
+                maxMinutes: document.getElementById('scanMinutes').value,
+                maxSpend: document.getElementById('scanSpend').value,
+              },
+              perDay: {
+                maxStories: document.getElementById('dayStories').value,
+                maxMinutes: document.getElementById('dayMinutes').value,
+                maxSpend: document.getElementById('daySpend').value,
+              },
+              costPerModelCall: document.getElementById('costPerCall').value,
+            },
+            retention: retentionFields(),
+            timeZone: document.getElementById('timeZone').value,
+          });
+        }
+
+        function retentionFields() {
+          return {
+            deleteRejectedAfterDays: document.getElementById('deleteRejectedAfterDays').value,
+            archiveAfterDays: document.getElementById('archiveAfterDays').value,
+            maxLibraryMB: document.getElementById('maxLibraryMB').value,
+          };
+        }
+
+        async function previewRetention() {
+          document.getElementById('retentionPreview').textContent = await window.electronAPI.previewRetention(retentionFields());
         }
+
+        updateFields();
+        previewRetention();
       </script>
     </body>
     </html>
@@ -618,46 +1138,56 @@ function openReviewWindow(): void {
   });
 
   const getUnreviewedHandler = async () => {
-    const accounts = await scanAccountImages();
-    const reviewedEvents: string[] = store.get("reviewedEvents") || [];
-    const rejectedEvents: string[] = store.get("rejectedEvents") || [];
-    const hiddenAccounts: string[] = store.get("hiddenAccounts") || [];
-    const eventsDir = getEventsDir();
-
-    const events: { key: string; url: string; username: string; date: string }[] = [];
-
-    for (const [username, images] of Object.entries(accounts)) {
-      if (hiddenAccounts.includes(username)) continue;
-      for (const img of images) {
-        const key = img.path.substring(eventsDir.length + 1); // e.g. "2026-02-08/user_14-30-00.png"
-        if (reviewedEvents.includes(key) || rejectedEvents.includes(key)) continue;
-        const relative = img.path.substring(eventsDir.length);
-        events.push({
-          key,
-          url: `scene-scout://local${relative}`,
-          username,
-          date: img.date,
-        });
-      }
+    const decisions = getReviewDecisions();
+    const hiddenAccounts = getHiddenAccounts();
+
+    const libraryEvents = listEvents().filter((e) => !hiddenAccounts.includes(e.username));
+
+    const events: {
+      key: string;
+      url: string;
+      username: string;
+      date: string;
+      capturedAt: string;
+      details: ExtractedEvent | null;
+      story: LibraryEvent["story"];
+      accounts: string[];
+      duplicateKeys: string[];
+    }[] = [];
+
+    // One card per group; a decision on any copy covers the rest
+    for (const group of groupDuplicates(libraryEvents)) {
+      const members = [group.canonical, ...group.duplicates];
+      if (members.some((m) => decisions.has(m.key))) continue;
+      const { canonical } = group;
+      events.push({
+        key: canonical.key,
+        url: `scene-scout://local/${canonical.key}`,
+        username: canonical.username,
+        date: canonical.date,
+        capturedAt: canonical.capturedAt,
+        details: canonical.details,
+        story: canonical.story,
+        accounts: group.accounts,
+        duplicateKeys: group.duplicates.map((d) => d.key),
+      });
     }
 
     // Sort newest first
-    events.sort((a, b) => b.date.localeCompare(a.date) || b.key.localeCompare(a.key));
+    events.sort((a, b) => Date.parse(b.capturedAt) - Date.parse(a.capturedAt) || b.key.localeCompare(a.key));
     return events;
   };
 
-  const reviewEventHandler = (_event: Electron.IpcMainInvokeEvent, key: string, approved: boolean) => {
-    if (approved) {
-      const reviewed: string[] = store.get("reviewedEvents") || [];
-      if (!reviewed.includes(key)) {
-        store.set("reviewedEvents", [...reviewed, key]);
-      }
-    } else {
-      const rejected: string[] = store.get("rejectedEvents") || [];
-      if (!rejected.includes(key)) {
-        store.set("rejectedEvents", [...rejected, key]);
-      }
-    }
+  const reviewEventHandler = (
+    _event: Electron.IpcMainInvokeEvent,
+    key: string,
+    approved: boolean,
+    duplicateKeys: string[] = []
+  ) => {
+    setReviewDecision([key], approved ? "approved" : "rejected");
+    // Copies of an approved flyer are kept but never exported; copies of a
+    // rejected one go with it, so cleanup deletes them too
+    setReviewDecision(duplicateKeys, approved ? "duplicate" : "rejected");
   };
 
   const exportEventsHandler = async () => {
@@ -669,15 +1199,12 @@ function openReviewWindow(): void {
     if (result.canceled || result.filePaths.length === 0) return { success: false };
 
     const destDir = result.filePaths[0];
-    const reviewedKeys: string[] = store.get("reviewedEvents") || [];
-    const eventsDir = getEventsDir();
     let copied = 0;
 
-    for (const key of reviewedKeys) {
-      const srcPath = join(eventsDir, key);
-      if (!existsSync(srcPath)) continue;
-      const destPath = join(destDir, basename(key));
-      copyFileSync(srcPath, destPath);
+    for (const event of listApprovedEvents()) {
+      if (!existsSync(event.path)) continue;
+      const destPath = join(destDir, basename(event.key));
+      copyFileSync(event.path, destPath);
       copied++;
     }
 
@@ -687,44 +1214,21 @@ function openReviewWindow(): void {
 
   const hideAccountHandler = (_event: Electron.IpcMainInvokeEvent, username: string) => {
     // Add to hiddenAccounts
-    const hiddenAccounts: string[] = store.get("hiddenAccounts") || [];
+    const hiddenAccounts = getHiddenAccounts();
     if (!hiddenAccounts.includes(username)) {
-      store.set("hiddenAccounts", [...hiddenAccounts, username]);
+      setHiddenAccounts([...hiddenAccounts, username]);
     }
     // Bulk-reject all unreviewed events from this user
-    const reviewedEvents: string[] = store.get("reviewedEvents") || [];
-    const rejectedEvents: string[] = store.get("rejectedEvents") || [];
-    const eventsDir = getEventsDir();
-    let rejectedCount = 0;
-
-    // Re-scan to find all events from this user
-    // We use synchronous approach: scanAccountImages is async, but we already have event keys
-    // Instead, reject from the known events list pattern
-    return scanAccountImages().then((accounts) => {
-      const images = accounts[username] || [];
-      for (const img of images) {
-        const key = img.path.substring(eventsDir.length + 1);
-        if (!reviewedEvents.includes(key) && !rejectedEvents.includes(key)) {
-          rejectedEvents.push(key);
-          rejectedCount++;
-        }
-      }
-      store.set("rejectedEvents", rejectedEvents);
-      return { rejectedCount };
-    });
+    const decisions = getReviewDecisions();
+    const undecided = getAccountEventKeys(username).filter((key) => !decisions.has(key));
+    setReviewDecision(undecided, "rejected");
+    return { rejectedCount: undecided.length };
   };
 
   const unhideAccountHandler = (_event: Electron.IpcMainInvokeEvent, username: string) => {
-    const hiddenAccounts: string[] = store.get("hiddenAccounts") || [];
-    store.set("hiddenAccounts", hiddenAccounts.filter((a) => a !== username));
+    setHiddenAccounts(getHiddenAccounts().filter((a) => a !== username));
     // Also un-reject events from this user that were bulk-rejected
-    const rejectedEvents: string[] = store.get("rejectedEvents") || [];
-    const eventsDir = getEventsDir();
-    return scanAccountImages().then((accounts) => {
-      const images = accounts[username] || [];
-      const userKeys = new Set(images.map((img) => img.path.substring(eventsDir.length + 1)));
-      store.set("rejectedEvents", rejectedEvents.filter((k) => !userKeys.has(k)));
-    });
+    clearReviewDecisions(getAccountEventKeys(username), "rejected");
   };
 
   ipcMain.handle("get-unreviewed-events", getUnreviewedHandler);
@@ -848,6 +1352,23 @@ function openReviewWindow(): void {
           margin-top: 4px;
           letter-spacing: 0.3px;
         }
+        .card-info .accounts {
+          font-size: 12px;
+          color: #c8cad0;
+          margin-top: 2px;
+        }
+        .card-info .details {
+          margin-top: 10px;
+          font-size: 13px;
+          line-height: 1.5;
+        }
+        .card-info .details .title {
+          font-weight: 600;
+          font-size: 15px;
+        }
+        .card-info .details .meta {
+          color: #c8cad0;
+        }
         .card.slide-left {
           transform: translateX(-130%) rotate(-12deg);
           opacity: 0;
@@ -1098,7 +1619,9 @@ function openReviewWindow(): void {
                 '<img src="' + esc(ev.url) + '" />' +
                 '<div class="card-info">' +
                   '<div class="username">@' + esc(ev.username) + '</div>' +
+                  renderAccounts(ev) +
                   '<div class="date">' + esc(ev.date) + '</div>' +
+                  renderDetails(ev.details, ev.story) +
                 '</div>' +
               '</div>' +
             '</div>' +
@@ -1110,6 +1633,39 @@ function openReviewWindow(): void {
             '<div class="hint">X ban &middot; &#8592; / N no &middot; &#8594; / Y yes</div>';
         }
 
+        function renderAccounts(ev) {
+          const others = ev.accounts.filter(function(a) { return a !== ev.username; });
+          const copies = ev.duplicateKeys.length;
+          if (others.length === 0 && copies === 0) return '';
+          let text = copies + 1 + ' copies';
+          if (others.length > 0) {
+            text += ' &middot; also posted by ' + others.map(function(a) { return '@' + esc(a); }).join(', ');
+          }
+          return '<div class="accounts">' + text + '</div>';
+        }
+
+        function renderDetails(details, story) {
+          if (!details) return '';
+          const when = [details.startDate, details.startTime].filter(Boolean).join(' ') +
+            (details.endDate || details.endTime ? ' - ' + [details.endDate, details.endTime].filter(Boolean).join(' ') : '');
+          const where = [details.venueName, details.address].filter(Boolean).join(', ');
+          let html = '<div class="details">';
+          if (details.title) html += '<div class="title">' + esc(details.title) + '</div>';
+          if (when) html += '<div class="meta">' + esc(when) + '</div>';
+          if (where) html += '<div class="meta">' + esc(where) + '</div>';
+          if (details.price) html += '<div class="meta">' + esc(details.price) + '</div>';
+          if (details.ticketUrl) html += '<div class="meta">' + esc(details.ticketUrl) + '</div>';
+          // Sticker links aren't visible in the image, so the model never sees them
+          const links = ((story && story.linkUrls) || []).filter(function (url) { return url !== details.ticketUrl; });
+          links.forEach(function (url) { html += '<div class="meta">' + esc(url) + '</div>'; });
+          const locations = (story && story.locations) || [];
+          if (locations.length) html += '<div class="meta">' + esc(locations.join(', ')) + '</div>';
+          const mentions = (story && story.mentions) || [];
+          if (mentions.length) html += '<div class="meta">' + esc(mentions.map(function (m) { return '@' + m; }).join(' ')) + '</div>';
+          html += '</div>';
+          return html;
+        }
+
         function esc(s) {
           const d = document.createElement('div');
           d.textContent = s;
@@ -1126,7 +1682,7 @@ function openReviewWindow(): void {
           }
 
           const ev = events[currentIndex];
-          await window.electronAPI.reviewEvent(ev.key, approved);
+          await window.electronAPI.reviewEvent(ev.key, approved, ev.duplicateKeys);
 
           setTimeout(() => {
             currentIndex++;
@@ -1252,25 +1808,24 @@ function handleAccountViewer(): void {
   });
 
   const getAccountsHandler = async () => {
-    const accounts = await scanAccountImages();
-    const hiddenAccounts = store.get("hiddenAccounts") || [];
+    const hiddenAccounts = getHiddenAccounts();
 
     const result: Record<string, { eventCount: number; hidden: boolean }> = {};
-    for (const [username, images] of Object.entries(accounts)) {
+    for (const { username, eventCount } of listAccounts()) {
       result[username] = {
         hidden: hiddenAccounts.includes(username),
-        eventCount: images.length,
+        eventCount,
       };
     }
     return result;
   };
 
   const toggleAccountHandler = (_event: Electron.IpcMainInvokeEvent, username: string, hidden: boolean) => {
-    const hiddenAccounts: string[] = store.get("hiddenAccounts") || [];
+    const hiddenAccounts = getHiddenAccounts();
     if (hidden && !hiddenAccounts.includes(username)) {
-      store.set("hiddenAccounts", [...hiddenAccounts, username]);
+      setHiddenAccounts([...hiddenAccounts, username]);
     } else if (!hidden) {
-      store.set("hiddenAccounts", hiddenAccounts.filter((a) => a !== username));
+      setHiddenAccounts(hiddenAccounts.filter((a) => a !== username));
     }
   };
 
@@ -1438,29 +1993,234 @@ function handleAccountViewer(): void {
   viewerWindow.setMenuBarVisibility(false);
 }
 
+function handleScanHistory(): void {
+  if (scanHistoryWindow && !scanHistoryWindow.isDestroyed()) {
+    scanHistoryWindow.focus();
+    return;
+  }
+
+  const preloadPath = join(__dirname, "..", "preload", "preload.js");
+
+  const historyWindow = new BrowserWindow({
+    width: 760,
+    height: 560,
+    title: "Scan History",
+    backgroundColor: "#f7f7f7",
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      preload: preloadPath,
+    },
+  });
+
+  scanHistoryWindow = historyWindow;
+
+  // The newest record has no end time while its scan is still running
+  ipcMain.handle("get-scan-history", () => ({ scans: listScans(), scanning: isScanning }));
+
+  historyWindow.on("closed", () => {
+    ipcMain.removeHandler("get-scan-history");
+    scanHistoryWindow = null;
+  });
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        @import url('https://fonts.googleapis.com/css2?family=IBM+Plex+Sans:wght@400;500;600;700&family=Kalam:wght@400;700&display=swap');
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body {
+          font-family: 'IBM Plex Sans', -apple-system, sans-serif;
+          background: #f7f7f7;
+          color: #162135;
+          overflow-y: auto;
+          padding: 32px 28px;
+        }
+        ::-webkit-scrollbar { width: 6px; }
+        ::-webkit-scrollbar-track { background: transparent; }
+        ::-webkit-scrollbar-thumb { background: #dce0e8; border-radius: 3px; }
+        ::-webkit-scrollbar-thumb:hover { background: #9ba3b5; }
+        h2 {
+          font-family: 'Kalam', cursive;
+          font-weight: 700;
+          font-size: 26px;
+          color: #162135;
+          letter-spacing: -0.3px;
+          margin-bottom: 8px;
+        }
+        .summary { font-size: 13px; color: #627296; margin-bottom: 20px; }
+        table { width: 100%; border-collapse: collapse; font-size: 13px; }
+        th {
+          text-align: left;
+          font-size: 11px;
+          font-weight: 500;
+          text-transform: uppercase;
+          letter-spacing: 1.2px;
+          color: #627296;
+          padding: 0 8px 10px 0;
+          border-bottom: 1px solid #dce0e8;
+        }
+        td { padding: 10px 8px 10px 0; border-bottom: 1px solid #dce0e8; vertical-align: top; }
+        td.num { font-variant-numeric: tabular-nums; }
+        .detail { font-size: 11px; color: #627296; }
+        .error { color: #c0392b; }
+        .empty-state {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          justify-content: center;
+          height: 60vh;
+          color: #627296;
+          font-size: 14px;
+          text-align: center;
+        }
+        .empty-state .title {
+          font-family: 'Kalam', cursive;
+          font-size: 22px;
+          color: #344360;
+          margin-bottom: 8px;
+          font-weight: 700;
+        }
+      </style>
+    </head>
+    <body>
+      <h2>Scan History</h2>
+      <div id="content"></div>
+      <script>
+        const TIME_ZONE = ${JSON.stringify(getTimeZone())};
+        const TRIGGERS = { manual: 'Manual', interval: 'Interval', resume: 'Resume', unlock: 'Unlock' };
+        const OUTCOMES = {
+          'end-of-stories': 'Finished',
+          'exited-viewer': 'Finished',
+          'no-stories': 'No stories',
+          'stopped': 'Stopped',
+          'limit-reached': 'Limit reached',
+          'failed': 'Failed',
+        };
+
+        async function load() {
+          const { scans, scanning } = await window.electronAPI.getScanHistory();
+          render(scans, scanning);
+        }
+
+        function render(scans, scanning) {
+          const el = document.getElementById('content');
+          if (scans.length === 0) {
+            el.innerHTML = '<div class="empty-state"><div class="title">No scans yet</div><div>Each scan is recorded here once it starts.</div></div>';
+            return;
+          }
+
+          const lastAuto = scans.find((s) => s.trigger && s.trigger !== 'manual');
+          let html = '<p class="summary">' +
+            (lastAuto ? 'Last automatic scan: ' + esc(formatTime(lastAuto.startedAt)) : 'No automatic scans recorded.') +
+            '</p>';
+          html += '<table><tr><th>Started</th><th>Trigger</th><th>Duration</th><th>Stories</th><th>Events</th><th>Model calls</th><th>Outcome</th></tr>';
+          scans.forEach((scan, i) => {
+            const running = scanning && i === 0 && !scan.finishedAt;
+            const outcome = running ? 'Running' : scan.finishedAt ? (OUTCOMES[scan.doneReason] || 'Finished') : "Didn't finish";
+            html += '<tr>';
+            html += '<td>' + esc(formatTime(scan.startedAt)) + '<div class="detail">' + (scan.mode === 'watchlist' ? 'Watchlist' : 'Feed') + '</div></td>';
+            html += '<td>' + esc(TRIGGERS[scan.trigger] || '—') + '</td>';
+            html += '<td class="num">' + (scan.durationMs !== null ? formatDuration(scan.durationMs) : '—') + '</td>';
+            html += '<td class="num">' + count(scan.storyCount) +
+              '<div class="detail">' + count(scan.hiddenSkipped) + ' hidden, ' + count(scan.alreadySeen) + ' seen</div></td>';
+            html += '<td class="num">' + count(scan.eventCount) + '<div class="detail">' + count(scan.newEventCount) + ' new</div></td>';
+            html += '<td class="num">' + count(scan.modelCalls) +
+              (scan.estimatedSpend ? '<div class="detail">~$' + scan.estimatedSpend.toFixed(3) + '</div>' : '') + '</td>';
+            html += '<td>' + esc(outcome);
+            if (scan.errorCount) html += '<div class="detail error">' + scan.errorCount + ' error' + (scan.errorCount !== 1 ? 's' : '') + '</div>';
+            if (scan.error) html += '<div class="detail error">' + esc(scan.error) + '</div>';
+            html += '</td></tr>';
+          });
+          html += '</table>';
+          el.innerHTML = html;
+        }
+
+        function count(n) {
+          return n === null || n === undefined ? '—' : String(n);
+        }
+
+        function formatTime(iso) {
+          return new Date(iso).toLocaleString([], { timeZone: TIME_ZONE, month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+        }
+
+        function formatDuration(ms) {
+          const seconds = Math.round(ms / 1000);
+          if (seconds < 60) return seconds + 's';
+          const minutes = Math.floor(seconds / 60);
+          return minutes + 'm ' + (seconds % 60) + 's';
+        }
+
+        function esc(s) {
+          const d = document.createElement('div');
+          d.textContent = s;
+          return d.innerHTML;
+        }
+
+        load();
+      </script>
+    </body>
+    </html>
+  `;
+
+  historyWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
+  historyWindow.setMenuBarVisibility(false);
+}
+
 // --- Auto-Scan ---
 
-async function tryAutoScan(): Promise<void> {
-  if (isScanning) return;
+async function tryAutoScan(trigger: ScanTrigger): Promise<void> {
+  if (isScanning || isMigrating) return;
   if (!store.get("autoScanEnabled")) return;
-  if (!existsSync(getSessionPath())) return;
-  if (!store.get("openrouterApiKey")) return;
+  if (needsApiKey()) return;
 
   const idleTime = powerMonitor.getSystemIdleTime();
   if (idleTime > IDLE_THRESHOLD_SECONDS) return;
 
+  // An interrupted scan resumes right away; stories it finished are skipped
   const lastAuto = store.get("lastAutoScanTime") || 0;
-  if (Date.now() - lastAuto < AUTO_SCAN_MIN_GAP_MS) return;
+  if (!store.get("scanInterrupted") && Date.now() - lastAuto < AUTO_SCAN_MIN_GAP_MS) return;
+
+  const originalId = getActiveProfile().id;
+  const profiles = store.get("autoScanAllProfiles") ? getProfiles() : [getActiveProfile()];
 
-  await handleScan();
+  // Profiles take turns; one with an expired session sits out until re-login
+  for (const profile of profiles) {
+    if (profile.sessionProblem) continue;
+    if (!existsSync(getSessionPath(profile.id))) continue;
+    if (profile.id !== getActiveProfile().id) await switchProfile(profile.id);
+    await handleScan("feed", trigger);
+  }
+
+  if (getActiveProfile().id !== originalId) await switchProfile(originalId);
+}
+
+async function tryWatchlistScan(): Promise<void> {
+  if (isScanning || isMigrating) return;
+  if (!store.get("autoScanEnabled") || !store.get("autoScanWatchlist")) return;
+  if (store.get("watchlist").length === 0) return;
+  if (needsApiKey()) return;
+  if (getActiveProfile().sessionProblem || !existsSync(getSessionPath())) return;
+
+  const idleTime = powerMonitor.getSystemIdleTime();
+  if (idleTime > IDLE_THRESHOLD_SECONDS) return;
+
+  const lastScan = store.get("lastWatchlistScanTime") || 0;
+  if (Date.now() - lastScan < WATCHLIST_SCAN_MIN_GAP_MS) return;
+
+  await handleScan("watchlist", "interval");
 }
 
 export function startAutoScan(): void {
   stopAutoScan();
-  autoScanTimer = setInterval(() => { tryAutoScan(); }, AUTO_SCAN_INTERVAL_MS);
+  autoScanTimer = setInterval(() => { tryAutoScan("interval"); }, AUTO_SCAN_INTERVAL_MS);
+  watchlistTimer = setInterval(() => { tryWatchlistScan(); }, WATCHLIST_SCAN_INTERVAL_MS);
+  // Picking up a scan the last session never finished counts as a resume
+  if (store.get("scanInterrupted")) tryAutoScan("resume");
 
-  powerMonitor.on("resume", () => { tryAutoScan(); });
-  powerMonitor.on("unlock-screen", () => { tryAutoScan(); });
+  powerMonitor.on("resume", () => { tryAutoScan("resume"); });
+  powerMonitor.on("unlock-screen", () => { tryAutoScan("unlock"); });
 }
 
 export function stopAutoScan(): void {
@@ -1468,6 +2228,10 @@ export function stopAutoScan(): void {
     clearInterval(autoScanTimer);
     autoScanTimer = null;
   }
+  if (watchlistTimer) {
+    clearInterval(watchlistTimer);
+    watchlistTimer = null;
+  }
 }
 
 function getNextAutoScanLabel(): string {
@@ -1503,6 +2267,7 @@ export function openOnboardingWindow(): void {
   const loginHandler = async () => {
     try {
       await runSetup();
+      updateProfile(getActiveProfile().id, { sessionProblem: "" });
       return { success: true };
     } catch (err) {
       return { success: false, error: `${err}` };